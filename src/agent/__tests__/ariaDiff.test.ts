@@ -0,0 +1,112 @@
+/**
+ * Unit tests for ARIA snapshot diffs between ticks.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/ariaDiff.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffAriaSnapshots, isEmptyDiff, parseAriaNodes, renderAriaDiff, summarizePage } from '../ariaDiff.js';
+import { annotateSnapshot } from '../elementRefs.js';
+
+const BEFORE = [
+  '- heading "Sign in" [level=1]',
+  '- form:',
+  '  - textbox "Email"',
+  '  - checkbox "Remember me"',
+  '  - button "Log in"',
+  '- text: Welcome back',
+].join('\n');
+
+describe('parseAriaNodes', () => {
+  it('keys nodes by ancestor path and counts repeated siblings', () => {
+    const nodes = parseAriaNodes('- list:\n  - listitem: A\n  - button "Save"\n  - button "Save"');
+    assert.deepEqual(nodes.map(n => n.key), [
+      '>list:#0',
+      '>list:#0>listitem: A#0',
+      '>list:#0>button "Save"#0',
+      '>list:#0>button "Save"#1',
+    ]);
+    assert.equal(nodes[0]!.end, 4);
+  });
+});
+
+describe('diffAriaSnapshots', () => {
+  it('is empty for identical snapshots', () => {
+    assert.ok(isEmptyDiff(diffAriaSnapshots(BEFORE, BEFORE)));
+  });
+
+  it('reports typed values and toggled states as changes', () => {
+    const after = BEFORE
+      .replace('textbox "Email"', 'textbox "Email": jane@example.com')
+      .replace('checkbox "Remember me"', 'checkbox "Remember me" [checked]');
+    const diff = diffAriaSnapshots(BEFORE, after);
+    assert.deepEqual(diff.added, []);
+    assert.deepEqual(diff.removed, []);
+    assert.deepEqual(diff.changed.map(c => c.after.label), [
+      'textbox "Email": jane@example.com',
+      'checkbox "Remember me" [checked]',
+    ]);
+  });
+
+  it('reports only the root of an added subtree', () => {
+    const after = `${BEFORE}\n- alert:\n  - text: Wrong password\n  - button "Dismiss"`;
+    const diff = diffAriaSnapshots(BEFORE, after);
+    assert.deepEqual(diff.added.map(n => n.label), ['alert:']);
+    assert.equal(diff.changed.length, 0);
+  });
+
+  it('pairs a renamed control with its old name', () => {
+    const after = BEFORE.replace('button "Log in"', 'button "Logging in..." [disabled]');
+    const diff = diffAriaSnapshots(BEFORE, after);
+    assert.equal(diff.added.length, 0);
+    assert.equal(diff.removed.length, 0);
+    assert.equal(diff.changed[0]!.before.name, 'Log in');
+    assert.equal(diff.changed[0]!.after.name, 'Logging in...');
+  });
+
+  it('ignores ref renumbering', () => {
+    const before = annotateSnapshot(BEFORE).snapshot;
+    const after = annotateSnapshot(`- button "Skip"\n${BEFORE}`).snapshot;
+    const diff = diffAriaSnapshots(before, after);
+    assert.deepEqual(diff.added.map(n => n.label), ['button "Skip" [ref=e1]']);
+    assert.equal(diff.changed.length, 0);
+  });
+});
+
+describe('renderAriaDiff', () => {
+  it('renders added subtrees with children, removals and changes', () => {
+    const after = BEFORE
+      .replace('- text: Welcome back', '- alert:\n  - text: Wrong password')
+      .replace('textbox "Email"', 'textbox "Email": jane');
+    const text = renderAriaDiff(diffAriaSnapshots(BEFORE, after), after, 8000);
+    assert.equal(text, [
+      '+ alert:',
+      '  - text: Wrong password',
+      '- text: Welcome back',
+      '~ textbox "Email" → textbox "Email": jane',
+    ].join('\n'));
+  });
+
+  it('names the parent of nested additions', () => {
+    const after = BEFORE.replace('  - button "Log in"', '  - button "Log in"\n  - link "Forgot password?"');
+    const text = renderAriaDiff(diffAriaSnapshots(BEFORE, after), after, 8000);
+    assert.equal(text, '+ link "Forgot password?"  (in form)');
+  });
+
+  it('says so when nothing changed', () => {
+    assert.match(renderAriaDiff(diffAriaSnapshots(BEFORE, BEFORE), BEFORE, 8000), /no changes/);
+  });
+});
+
+describe('summarizePage', () => {
+  it('lists headings and controls with their values', () => {
+    const after = BEFORE.replace('textbox "Email"', 'textbox "Email": jane');
+    assert.equal(summarizePage(after, 8000), [
+      '- heading "Sign in" [level=1]',
+      '- textbox "Email": jane',
+      '- checkbox "Remember me"',
+      '- button "Log in"',
+    ].join('\n'));
+  });
+});
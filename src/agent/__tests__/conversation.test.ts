@@ -0,0 +1,63 @@
+/**
+ * Unit tests for conversation memory.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/conversation.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConversationMemory } from '../conversation.js';
+import type { Observation } from '../observation.js';
+
+function observation(tick: number, lastError: string | null = null): Observation {
+  return {
+    url: 'https://example.com/login',
+    title: 'Login',
+    ariaSnapshot: '- button "Login"',
+    shortText: '',
+    lastError,
+    previousActions: [],
+    tickNumber: tick,
+  };
+}
+
+const clickLogin = {
+  type: 'click' as const,
+  locator: { kind: 'role' as const, role: 'button', name: 'Log in' },
+};
+
+describe('ConversationMemory', () => {
+  it('replays turns as alternating user/assistant messages', () => {
+    const memory = new ConversationMemory();
+    memory.recordTurn(observation(1), '{"action":{"type":"wait","ms":100}}');
+    memory.recordOutcome({ type: 'wait', ms: 100 }, true);
+
+    const messages = memory.messages();
+    assert.deepEqual(messages.map(m => m.role), ['user', 'assistant']);
+    assert.match(messages[0]!.content, /\[Tick 1\] URL: https:\/\/example\.com\/login/);
+    assert.doesNotMatch(messages[0]!.content, /button "Login"/);
+  });
+
+  it('lists failed locators so the model does not retry them', () => {
+    const memory = new ConversationMemory();
+    memory.recordTurn(observation(1), JSON.stringify({ action: clickLogin }));
+    memory.recordOutcome(clickLogin, false, 'Locator not found');
+
+    const [summary] = memory.messages();
+    assert.match(summary!.content, /FAILED ATTEMPTS/);
+    assert.match(summary!.content, /click role=button name="Log in"/);
+  });
+
+  it('summarises older turns once the token window is exceeded', () => {
+    const memory = new ConversationMemory({ tokenWindow: 60 });
+    for (let tick = 1; tick <= 5; tick++) {
+      memory.recordTurn(observation(tick), JSON.stringify({ action: { type: 'wait', ms: 100 } }));
+      memory.recordOutcome({ type: 'wait', ms: 100 }, true);
+    }
+
+    const messages = memory.messages();
+    assert.match(messages[0]!.content, /EARLIER TICKS \(summarised\)/);
+    assert.match(messages[0]!.content, /tick 1: \[✓\] wait/);
+    assert.match(messages[messages.length - 2]!.content, /\[Tick 5\]/);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for dialog policies, answering open dialogs and how dialogs
+ * reach the prompt.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/dialogs.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import pino from 'pino';
+import type { Dialog, Page } from '@playwright/test';
+import { DialogTracker } from '../dialogs.js';
+import { evaluateExpectation } from '../expectations.js';
+import { buildUserPrompt } from '../prompt.js';
+import type { Observation } from '../observation.js';
+
+const logger = pino.default({ level: 'silent' });
+
+/** Dialog that records how it was answered */
+function fakeDialog(type: string, message: string) {
+  const answers: string[] = [];
+  const dialog = {
+    type: () => type,
+    message: () => message,
+    accept: async (text?: string) => { answers.push(text === undefined ? 'accept' : `accept:${text}`); },
+    dismiss: async () => { answers.push('dismiss'); },
+  } as unknown as Dialog;
+  return { dialog, answers };
+}
+
+function fakePage(): Page & EventEmitter {
+  return new EventEmitter() as unknown as Page & EventEmitter;
+}
+
+describe('DialogTracker', () => {
+  it('answers dialogs by policy as they open', () => {
+    const page = fakePage();
+    const tracker = new DialogTracker('accept', logger);
+    tracker.attach(page);
+    const confirm = fakeDialog('confirm', 'Delete this draft?');
+    page.emit('dialog', confirm.dialog);
+    assert.deepEqual(confirm.answers, ['accept']);
+    assert.deepEqual(tracker.list(), [{ type: 'confirm', message: 'Delete this draft?', outcome: 'accepted' }]);
+    assert.equal(tracker.open(), undefined);
+  });
+
+  it('leaves dialogs open for the agent to answer', async () => {
+    const page = fakePage();
+    const tracker = new DialogTracker('agent', logger);
+    tracker.attach(page);
+    const prompt = fakeDialog('prompt', 'Name the copy');
+    page.emit('dialog', prompt.dialog);
+    assert.equal(tracker.open(page)?.outcome, 'open');
+    assert.equal(tracker.open(fakePage()), undefined);
+
+    const answered = await tracker.answer(page, true, 'Draft 2');
+    assert.equal(answered.outcome, 'accepted');
+    assert.deepEqual(prompt.answers, ['accept:Draft 2']);
+    await assert.rejects(tracker.answer(page, false), /^Error: No dialog is open$/);
+  });
+
+  it('explains the policy when there is nothing to answer', async () => {
+    const tracker = new DialogTracker('dismiss', logger);
+    await assert.rejects(tracker.answer(fakePage(), true), /dismissed automatically in this test case/);
+  });
+
+  it('stops waiting for an action once a dialog is left open', async () => {
+    const page = fakePage();
+    const tracker = new DialogTracker('agent', logger);
+    tracker.attach(page);
+    assert.equal(await tracker.race(page, Promise.resolve('clicked')), 'clicked');
+
+    // Like a click on a button that calls confirm(): done only once the dialog is answered
+    const click = new Promise(() => {});
+    const raced = tracker.race(page, click);
+    page.emit('dialog', fakeDialog('confirm', 'Leave the page?').dialog);
+    assert.equal(await raced, null);
+  });
+
+  it('keeps the dialogs of each tab to that tab', async () => {
+    const active = fakePage();
+    const background = fakePage();
+    const tracker = new DialogTracker('agent', logger);
+    tracker.attach(active);
+    tracker.attach(background);
+
+    // A dialog in another tab neither ends the active tab's action nor is answered from it
+    let save!: (value: string) => void;
+    const saving = tracker.race(active, new Promise<string>(done => { save = done; }));
+    const leave = fakeDialog('beforeunload', 'Leave the page?');
+    background.emit('dialog', leave.dialog);
+    save('saved');
+    assert.equal(await saving, 'saved');
+    await assert.rejects(tracker.answer(active, true), /^Error: No dialog is open$/);
+
+    const deleting = tracker.race(active, new Promise(() => {}));
+    const confirm = fakeDialog('confirm', 'Delete this draft?');
+    active.emit('dialog', confirm.dialog);
+    assert.equal(await deleting, null);
+    await tracker.answer(active, true);
+    assert.deepEqual(confirm.answers, ['accept']);
+    assert.deepEqual(leave.answers, []);
+    assert.equal(tracker.open(background)?.message, 'Leave the page?');
+  });
+
+  it('drops open dialogs with their tab', () => {
+    const page = fakePage();
+    const tracker = new DialogTracker('agent', logger);
+    tracker.attach(page);
+    page.emit('dialog', fakeDialog('alert', 'Session expired').dialog);
+    page.emit('close');
+    assert.equal(tracker.open(), undefined);
+    assert.equal(tracker.list()[0]?.outcome, 'dismissed');
+  });
+});
+
+describe('dialog_shown', () => {
+  it('passes once a dialog with the text appeared', async () => {
+    const page = fakePage();
+    const tracker = new DialogTracker('dismiss', logger);
+    tracker.attach(page);
+    page.emit('dialog', fakeDialog('confirm', 'Delete this draft?').dialog);
+    const shown = await evaluateExpectation(page, { type: 'dialog_shown', value: 'Delete this' }, 0, undefined, tracker);
+    assert.equal(shown.passed, true);
+    const missing = await evaluateExpectation(page, { type: 'dialog_shown', value: 'Saved' }, 0, undefined, tracker);
+    assert.equal(missing.error, 'No dialog said "Saved" (dialogs: confirm "Delete this draft?")');
+  });
+});
+
+describe('dialogs in the prompt', () => {
+  const observation: Observation = {
+    url: 'https://docs.example.com/drafts',
+    title: 'Drafts',
+    ariaSnapshot: '[A dialog is open - the page cannot be read until it is answered]',
+    shortText: '',
+    lastError: null,
+    previousActions: [],
+    tickNumber: 3,
+  };
+
+  it('lists dialogs and marks the open one', () => {
+    const prompt = buildUserPrompt({
+      goal: 'Delete the draft',
+      expectations: [],
+      observation: {
+        ...observation,
+        dialogs: [
+          { type: 'alert', message: 'Autosaved', outcome: 'accepted' },
+          { type: 'confirm', message: 'Delete "Q3 plan"?', outcome: 'open' },
+        ],
+      },
+    });
+    assert.match(prompt, /Dialogs:\n {2}alert "Autosaved" - accepted\n {2}confirm "Delete \\"Q3 plan\\"\?" - OPEN, waiting for an answer/);
+  });
+
+  it('leaves dialogs out until one appears', () => {
+    assert.doesNotMatch(buildUserPrompt({ goal: 'Delete the draft', expectations: [], observation }), /Dialogs:/);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for element refs in ARIA snapshots.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/elementRefs.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Frame, Page } from '@playwright/test';
+import { annotateSnapshot, refToSpec, stabilizeRefs } from '../elementRefs.js';
+import { stabilizeFrames, stableFrameRef } from '../frames.js';
+import type { Action } from '../actionSchema.js';
+
+const SNAPSHOT = [
+  '- banner:',
+  '  - link "Home":',
+  '    - /url: /',
+  '- heading "Sign in" [level=1]',
+  '- textbox "Email": jane@example.com',
+  '- checkbox "Remember me" [checked]',
+  '- button "Save"',
+  '- button "Save"',
+  '- button',
+  '- text: Need "help"?',
+  '- button "Say \\"hi\\""',
+].join('\n');
+
+describe('annotateSnapshot', () => {
+  it('numbers interactive nodes only, keeping attributes and values', () => {
+    const { snapshot } = annotateSnapshot(SNAPSHOT);
+    assert.equal(snapshot, [
+      '- banner:',
+      '  - link "Home" [ref=e1]:',
+      '    - /url: /',
+      '- heading "Sign in" [level=1]',
+      '- textbox "Email" [ref=e2]: jane@example.com',
+      '- checkbox "Remember me" [ref=e3] [checked]',
+      '- button "Save" [ref=e4]',
+      '- button "Save" [ref=e5]',
+      '- button [ref=e6]',
+      '- text: Need "help"?',
+      '- button "Say \\"hi\\"" [ref=e7]',
+    ].join('\n'));
+  });
+
+  it('maps refs to role, name and occurrence', () => {
+    const { refs } = annotateSnapshot(SNAPSHOT);
+    assert.deepEqual(refs.e2, { role: 'textbox', name: 'Email', nth: 0 });
+    assert.deepEqual(refs.e5, { role: 'button', name: 'Save', nth: 1 });
+    assert.deepEqual(refs.e6, { role: 'button', nth: 2 });
+    assert.deepEqual(refs.e7, { role: 'button', name: 'Say "hi"', nth: 0 });
+  });
+});
+
+describe('element refs in frames', () => {
+  const { snapshot, refs } = annotateSnapshot([
+    '- button "Pay"',
+    '- iframe',
+    '- frame [frame=1] name="card" url="https://pay.example.com/card":',
+    '  - textbox "Card number"',
+    '  - button "Pay"',
+  ].join('\n'));
+
+  it('leaves frame labels unnumbered and restarts nth in each frame', () => {
+    assert.match(snapshot, /^- frame \[frame=1\] name="card"/m);
+    assert.deepEqual(refs.e2, { role: 'textbox', name: 'Card number', nth: 0, frame: '1' });
+    assert.deepEqual(refs.e3, { role: 'button', name: 'Pay', nth: 0, frame: '1' });
+  });
+
+  it('keeps the frame in the stable locator', () => {
+    assert.deepEqual(refToSpec('e3', refs), { kind: 'role', role: 'button', name: 'Pay', exact: true, frame: '1' });
+    assert.deepEqual(refToSpec('e1', refs), { kind: 'role', role: 'button', name: 'Pay', exact: true });
+  });
+
+  /** Page whose frames have these names and URLs, the page itself first */
+  function fakePage(...frames: Array<[name: string, url: string]>): Page {
+    const all = [['', 'https://shop.example.com/cart'], ...frames].map(([name, url]) => ({
+      name: () => name,
+      url: () => url,
+      isDetached: () => false,
+    }) as unknown as Frame);
+    return { frames: () => all } as unknown as Page;
+  }
+
+  it('records the frame by name or URL instead of its index', () => {
+    const page = fakePage(['card', 'https://pay.example.com/card'], ['', 'https://ads.example.com/slot']);
+    const action: Action = { type: 'click', locator: { kind: 'ref', ref: 'e3' } };
+    assert.deepEqual(stabilizeFrames(page, stabilizeRefs(action, refs)), {
+      type: 'click',
+      locator: { kind: 'role', role: 'button', name: 'Pay', exact: true, frame: 'card' },
+    });
+    assert.equal(stableFrameRef(page, '2'), 'slot');
+    assert.equal(stableFrameRef(page, 'payment'), 'payment');
+  });
+
+  it('falls back to the whole URL when its last part is ambiguous', () => {
+    const page = fakePage(['', 'https://a.example.com/widget'], ['', 'https://b.example.com/widget']);
+    assert.equal(stableFrameRef(page, '1'), 'widget');
+    assert.equal(stableFrameRef(page, '2'), 'https://b.example.com/widget');
+  });
+});
+
+describe('stabilizeRefs', () => {
+  const { refs } = annotateSnapshot(SNAPSHOT);
+
+  it('swaps a ref for the role locator it points at', () => {
+    const action: Action = { type: 'click', locator: { kind: 'ref', ref: 'e3' } };
+    assert.deepEqual(stabilizeRefs(action, refs), {
+      type: 'click',
+      locator: { kind: 'role', role: 'checkbox', name: 'Remember me', exact: true },
+    });
+  });
+
+  it('swaps both ends of a drag', () => {
+    const action: Action = { type: 'drag', source: { kind: 'ref', ref: 'e3' }, target: { kind: 'text', text: 'Trash' } };
+    assert.deepEqual(stabilizeRefs(action, refs), {
+      type: 'drag',
+      source: { kind: 'role', role: 'checkbox', name: 'Remember me', exact: true },
+      target: { kind: 'text', text: 'Trash' },
+    });
+  });
+
+  it('keeps nth when other nodes share the role and name', () => {
+    assert.deepEqual(refToSpec('e4', refs), { kind: 'role', role: 'button', name: 'Save', exact: true, nth: 0 });
+    assert.deepEqual(refToSpec('e5', refs), { kind: 'role', role: 'button', name: 'Save', exact: true, nth: 1 });
+  });
+
+  it('always keeps nth for unnamed nodes, counted among every node of the role', () => {
+    assert.deepEqual(refToSpec('e6', refs), { kind: 'role', role: 'button', name: '', exact: false, nth: 2 });
+  });
+
+  it('leaves unknown refs and other locators untouched', () => {
+    const unknown: Action = { type: 'click', locator: { kind: 'ref', ref: 'e99' } };
+    const label: Action = { type: 'fill', locator: { kind: 'label', text: 'Email' }, text: 'x' };
+    assert.equal(stabilizeRefs(unknown, refs), unknown);
+    assert.equal(stabilizeRefs(label, refs), label);
+    assert.equal(refToSpec('e99', refs), null);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for upload fixtures and file sizes.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/files.test.ts
+ */
+
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { formatSize, listFixtureFiles, resolveFixturePaths } from '../files.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'qacr-fixtures-'));
+mkdirSync(join(dir, 'invoices'));
+writeFileSync(join(dir, 'avatar.png'), 'png');
+writeFileSync(join(dir, 'invoices', 'march.csv'), 'id,total\n1,42\n');
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+describe('listFixtureFiles', () => {
+  it('lists files recursively with forward slashes, sorted', () => {
+    assert.deepEqual(listFixtureFiles(dir), ['avatar.png', 'invoices/march.csv']);
+  });
+
+  it('is empty without a fixtures directory', () => {
+    assert.deepEqual(listFixtureFiles(null), []);
+    assert.deepEqual(listFixtureFiles(join(dir, 'missing')), []);
+  });
+});
+
+describe('resolveFixturePaths', () => {
+  it('resolves paths inside the fixtures directory', () => {
+    assert.deepEqual(
+      resolveFixturePaths(dir, ['invoices/march.csv', './avatar.png']),
+      [join(dir, 'invoices', 'march.csv'), join(dir, 'avatar.png')],
+    );
+  });
+
+  it('refuses paths that leave the fixtures directory', () => {
+    assert.throws(() => resolveFixturePaths(dir, ['../secrets.txt']), /outside the fixtures directory/);
+    assert.throws(() => resolveFixturePaths(dir, ['/etc/passwd']), /outside the fixtures directory/);
+  });
+
+  it('lists the available files when one is missing', () => {
+    assert.throws(
+      () => resolveFixturePaths(dir, ['april.csv']),
+      /"april\.csv" not found in fixtures \(available: avatar\.png, invoices\/march\.csv\)/,
+    );
+  });
+
+  it('needs a fixtures directory', () => {
+    assert.throws(() => resolveFixturePaths(null, ['avatar.png']), /fixtures directory/);
+  });
+});
+
+describe('formatSize', () => {
+  it('uses B, KB and MB', () => {
+    assert.equal(formatSize(512), '512 B');
+    assert.equal(formatSize(1536), '1.5 KB');
+    assert.equal(formatSize(3 * 1024 * 1024), '3.0 MB');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for locator specs: filters, descriptions and ambiguity errors.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/locator.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AmbiguousLocatorError, describeLocator } from '../locator.js';
+import { parseAction, type LocatorSpec } from '../actionSchema.js';
+
+const editInRow: LocatorSpec = {
+  kind: 'role',
+  role: 'button',
+  name: 'Edit',
+  within: { kind: 'role', role: 'row', name: 'Invoice 42', hasText: 'Paid' },
+};
+
+describe('LocatorSpecSchema filters', () => {
+  it('accepts nested within, hasText and nth on any kind', () => {
+    const reply = JSON.stringify({ action: { type: 'click', locator: { ...editInRow, nth: 0 } } });
+    assert.deepEqual(parseAction(reply).action, { type: 'click', locator: { ...editInRow, nth: 0 } });
+  });
+
+  it('rejects a negative nth', () => {
+    const reply = JSON.stringify({ action: { type: 'click', locator: { kind: 'text', text: 'Edit', nth: -1 } } });
+    assert.throws(() => parseAction(reply), /nth/);
+  });
+});
+
+describe('describeLocator', () => {
+  it('includes filters and the parent scope', () => {
+    assert.equal(
+      describeLocator({ ...editInRow, nth: 2 }),
+      'role=button name="Edit" nth=2 within(role=row name="Invoice 42" hasText="Paid")',
+    );
+  });
+});
+
+describe('composable locators', () => {
+  const deleteInCard: LocatorSpec = {
+    kind: 'role',
+    role: 'button',
+    name: 'Delete',
+    within: {
+      kind: 'css',
+      selector: '.card',
+      filter: { has: { kind: 'alt', text: 'Invoice 42' }, hasNotText: 'Archived' },
+    },
+    last: true,
+  };
+
+  it('parses filters, last and the newer kinds', () => {
+    const reply = JSON.stringify({ action: { type: 'click', locator: deleteInCard } });
+    assert.deepEqual(parseAction(reply).action, { type: 'click', locator: deleteInCard });
+    for (const locator of [
+      { kind: 'placeholder', text: 'Search' },
+      { kind: 'title', text: 'Close', exact: true },
+      { kind: 'xpath', expression: '//tr[2]' },
+    ]) {
+      assert.equal(parseAction(JSON.stringify({ action: { type: 'click', locator } })).action?.type, 'click');
+    }
+  });
+
+  it('parses and describes a frame', () => {
+    const inFrame: LocatorSpec = { kind: 'label', text: 'Card number', frame: 'payment' };
+    assert.deepEqual(parseAction(JSON.stringify({ action: { type: 'fill', locator: inFrame, text: '4242' } })).action, { type: 'fill', locator: inFrame, text: '4242' });
+    assert.equal(describeLocator(inFrame), 'label="Card number" frame="payment"');
+  });
+
+  it('describes nested filters', () => {
+    assert.equal(
+      describeLocator(deleteInCard),
+      'role=button name="Delete" last within(css=".card" hasNotText="Archived" has(alt="Invoice 42"))',
+    );
+  });
+});
+
+describe('AmbiguousLocatorError', () => {
+  it('lists candidates with their container and how to narrow', () => {
+    const error = new AmbiguousLocatorError(
+      { kind: 'role', role: 'button', name: 'Edit' },
+      7,
+      [
+        { nth: 0, element: 'button "Edit"', context: 'row "Invoice 41 Due Edit"' },
+        { nth: 1, element: 'button "Edit"', context: 'row "Invoice 42 Paid Edit"' },
+      ],
+    );
+    assert.equal(error.message, [
+      'Ambiguous locator: role=button name="Edit" matches 7 elements. ' +
+        'Refine it with "hasText", "within" (a parent locator) or "nth" (0-based):',
+      '  [nth=0] button "Edit"  in: row "Invoice 41 Due Edit"',
+      '  [nth=1] button "Edit"  in: row "Invoice 42 Paid Edit"',
+      '  ... and 5 more',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for fuzzy locator healing.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/locatorHealing.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { editDistance, healLocator, healingCandidates, normalizeText, textSimilarity } from '../locatorHealing.js';
+
+const SNAPSHOT = [
+  '- banner:',
+  '  - link "Home" [ref=e1]',
+  '- heading "Sign in" [level=1]',
+  '- textbox "E-mail address" [ref=e2]',
+  '- textbox "Password" [ref=e3]',
+  '- button "Login" [ref=e4]',
+  '- link "Forgot password?" [ref=e5]',
+  '- button "Save draft"',
+  '- button "Save drafts"',
+  '- text: Welcome back!',
+].join('\n');
+
+describe('text similarity', () => {
+  it('normalises case, accents and punctuation', () => {
+    assert.equal(normalizeText('  Café — Menü!  '), 'cafe menu');
+    assert.equal(textSimilarity('E-MAIL Address', 'e-mail address'), 1);
+  });
+
+  it('scores edit distance and word overlap', () => {
+    assert.equal(editDistance('kitten', 'sitting'), 3);
+    assert.equal(textSimilarity('Log in', 'Login'), 1);
+    assert.ok(textSimilarity('Sign up', 'Login') < 0.5);
+  });
+});
+
+describe('healLocator', () => {
+  it('heals a renamed button', () => {
+    const healed = healLocator({ kind: 'role', role: 'button', name: 'Log in', exact: true }, SNAPSHOT);
+    assert.deepEqual(healed, { spec: { kind: 'role', role: 'button', name: 'Login', exact: true }, score: 1 });
+  });
+
+  it('accepts synonym roles at a slight discount', () => {
+    const healed = healLocator({ kind: 'role', role: 'link', name: 'Login' }, SNAPSHOT);
+    assert.equal(healed?.spec.kind === 'role' && healed.spec.role, 'button');
+    assert.equal(healed?.score, 0.9);
+  });
+
+  it('heals labels against form controls only', () => {
+    const healed = healLocator({ kind: 'label', text: 'Email address' }, SNAPSHOT);
+    assert.deepEqual(healed?.spec, { kind: 'role', role: 'textbox', name: 'E-mail address', exact: true });
+  });
+
+  it('heals text to a text node', () => {
+    const healed = healLocator({ kind: 'text', text: 'Welcome back' }, SNAPSHOT);
+    assert.deepEqual(healed?.spec, { kind: 'text', text: 'Welcome back!', exact: true });
+  });
+
+  it('refuses when two candidates are close', () => {
+    assert.equal(healLocator({ kind: 'role', role: 'button', name: 'Save drafty' }, SNAPSHOT), null);
+  });
+
+  it('refuses weak matches and unrelated roles', () => {
+    assert.equal(healLocator({ kind: 'role', role: 'button', name: 'Checkout' }, SNAPSHOT), null);
+    assert.deepEqual(healingCandidates({ kind: 'role', role: 'checkbox', name: 'Login' }, SNAPSHOT), []);
+    assert.equal(healLocator({ kind: 'css', selector: '#login' }, SNAPSHOT), null);
+  });
+
+  it('keeps the scope and filters of the original locator', () => {
+    const within = { kind: 'role' as const, role: 'dialog', name: 'Sign in' };
+    const healed = healLocator({ kind: 'role', role: 'button', name: 'Log in', within, nth: 0 }, SNAPSHOT);
+    assert.deepEqual(healed?.spec, { kind: 'role', role: 'button', name: 'Login', exact: true, within, nth: 0 });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for loop detection.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/loopDetector.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoopDetector, actionFingerprint } from '../loopDetector.js';
+import type { Action } from '../actionSchema.js';
+import type { Observation } from '../observation.js';
+
+function observation(ariaSnapshot: string, url = 'https://example.com/'): Observation {
+  return {
+    url,
+    title: 'Example',
+    ariaSnapshot,
+    shortText: '',
+    lastError: null,
+    previousActions: [],
+    tickNumber: 1,
+  };
+}
+
+const clickSave: Action = {
+  type: 'click',
+  locator: { kind: 'role', role: 'button', name: 'Save' },
+};
+const clickCancel: Action = {
+  type: 'click',
+  locator: { kind: 'role', role: 'button', name: 'Cancel' },
+};
+
+describe('actionFingerprint', () => {
+  it('ignores description and key order', () => {
+    const a = actionFingerprint({ ...clickSave, description: 'first try' });
+    const b = actionFingerprint({
+      locator: { name: 'Save', role: 'button', kind: 'role' },
+      type: 'click',
+    } as Action);
+    assert.equal(a, b);
+  });
+});
+
+describe('LoopDetector', () => {
+  it('detects the same failing action on an unchanged page', () => {
+    const detector = new LoopDetector({ repeatThreshold: 3 });
+    const page = observation('- button "Save"');
+    detector.record(page, clickSave, false);
+    detector.record(page, clickSave, false);
+    assert.equal(detector.detect(), null);
+
+    detector.record(page, clickSave, false);
+    const loop = detector.detect();
+    assert.equal(loop?.kind, 'repeat');
+    assert.match(loop!.description, /failed every time/);
+  });
+
+  it('detects two actions oscillating between two states', () => {
+    const detector = new LoopDetector();
+    const a = observation('- dialog "Edit"');
+    const b = observation('- button "Edit"');
+    detector.record(a, clickCancel, true);
+    detector.record(b, clickSave, true);
+    detector.record(a, clickCancel, true);
+    detector.record(b, clickSave, true);
+    assert.equal(detector.detect()?.kind, 'oscillation');
+  });
+
+  it('does not flag progress across changing pages', () => {
+    const detector = new LoopDetector();
+    for (let i = 0; i < 8; i++) {
+      detector.record(observation(`- heading "Page ${i}"`), clickSave, true);
+    }
+    assert.equal(detector.detect(), null);
+  });
+
+  it('reports no progress when the page never changes', () => {
+    const detector = new LoopDetector({ noProgressThreshold: 4, repeatThreshold: 10 });
+    const page = observation('- textbox "Name"');
+    for (let i = 0; i < 4; i++) {
+      detector.record(page, { type: 'wait', ms: 100 + i * 100 }, true);
+    }
+    assert.equal(detector.detect()?.kind, 'no_progress');
+  });
+});
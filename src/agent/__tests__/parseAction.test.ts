@@ -0,0 +1,155 @@
+/**
+ * Unit tests for tolerant LLM output parsing and JSON repair.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/parseAction.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAction, parsePlan, ActionParseError, MAX_PLAN_LENGTH } from '../actionSchema.js';
+import { buildSystemPrompt } from '../prompt.js';
+import { extractJsonCandidates, repairJson, scanObjects } from '../jsonRepair.js';
+
+const CLICK = { type: 'click', locator: { kind: 'role', role: 'button', name: 'Sign in' } };
+
+describe('scanObjects', () => {
+  it('finds each balanced top-level object, ignoring braces in strings', () => {
+    assert.deepEqual(
+      scanObjects('first {"a": "}"} then {"b": {"c": [1, {"d": 2}]}} done'),
+      ['{"a": "}"}', '{"b": {"c": [1, {"d": 2}]}}'],
+    );
+  });
+
+  it('closes an object truncated mid-string', () => {
+    assert.deepEqual(scanObjects('{"action": {"type": "fail", "reason": "out of tok'), [
+      '{"action": {"type": "fail", "reason": "out of tok"}}',
+    ]);
+  });
+});
+
+describe('extractJsonCandidates', () => {
+  it('prefers fenced code blocks', () => {
+    const text = 'Options {like this}.\n```json\n{"action": 1}\n```';
+    assert.deepEqual(extractJsonCandidates(text), ['{"action": 1}', '{like this}']);
+  });
+});
+
+describe('repairJson', () => {
+  it('fixes single quotes, bare keys, trailing commas, comments and Python literals', () => {
+    const repaired = repairJson(`{action: {'type': 'check', // toggle\n checked: True, 'note': 'it\\'s "on"',},}`);
+    assert.deepEqual(JSON.parse(repaired), { action: { type: 'check', checked: true, note: `it's "on"` } });
+  });
+
+  it('leaves apostrophes inside double-quoted strings alone', () => {
+    assert.deepEqual(JSON.parse(repairJson(`{"reason": "can't find it",}`)), { reason: "can't find it" });
+  });
+});
+
+describe('parseAction', () => {
+  it('parses plain JSON', () => {
+    assert.deepEqual(parseAction(JSON.stringify({ action: CLICK })), { action: CLICK });
+  });
+
+  it('picks the first object that validates when the reply has several', () => {
+    const reply = `I could use {"kind": "text"} but instead:\n${JSON.stringify({ thinking: 'click it', action: CLICK })}\n{"action": {"type": "wait", "ms": 500}}`;
+    assert.deepEqual(parseAction(reply), { thinking: 'click it', action: CLICK });
+  });
+
+  it('accepts repaired JSON and bare actions', () => {
+    assert.deepEqual(
+      parseAction("```\n{'type': 'press', 'key': 'Enter',}\n```"),
+      { action: { type: 'press', key: 'Enter' } },
+    );
+  });
+
+  it('reports schema issues with paths', () => {
+    assert.throws(
+      () => parseAction('{"action": {"type": "wait", "ms": 5}}'),
+      (e: unknown) => {
+        assert.ok(e instanceof ActionParseError);
+        assert.equal(e.issues.length, 1);
+        assert.match(e.issues[0]!, /^action\.ms: /);
+        return true;
+      },
+    );
+  });
+
+  it('reports missing and unparseable JSON', () => {
+    assert.throws(() => parseAction('I will click the button.'), /No JSON object found/);
+    assert.throws(() => parseAction('{"action": [1 2]}'), (e: unknown) => {
+      assert.ok(e instanceof ActionParseError);
+      assert.match(e.issues[0]!, /not valid JSON/);
+      return true;
+    });
+  });
+});
+
+describe('batched actions', () => {
+  const FILL_FORM = {
+    type: 'fill_form',
+    fields: [{ label: 'Email', value: '{{secret:EMAIL}}' }, { label: 'Newsletter', value: 'false' }],
+  };
+
+  it('parses a batch, fill_form included', () => {
+    const reply = JSON.stringify({ actions: [FILL_FORM, CLICK] });
+    assert.deepEqual(parseAction(reply), { actions: [FILL_FORM, CLICK] });
+  });
+
+  it('accepts strict output with the unused field set to null', () => {
+    assert.deepEqual(parseAction(JSON.stringify({ thinking: null, action: null, actions: [CLICK] })), { actions: [CLICK] });
+  });
+
+  it('requires exactly one of action and actions', () => {
+    assert.throws(() => parseAction(JSON.stringify({ action: CLICK, actions: [CLICK] })), /either "action" or "actions"/);
+    assert.throws(() => parseAction('{"thinking": "hmm"}'), /either "action" or "actions"/);
+  });
+
+  it('enforces the configured cap with a correctable issue', () => {
+    const reply = JSON.stringify({ actions: [CLICK, CLICK, CLICK] });
+    assert.equal(parseAction(reply, 3).actions?.length, 3);
+    assert.throws(() => parseAction(reply, 2), (e: unknown) => {
+      assert.ok(e instanceof ActionParseError);
+      assert.deepEqual(e.issues, ['actions: at most 2 actions per reply']);
+      return true;
+    });
+  });
+
+  it('accepts no batch at all when batching is off', () => {
+    assert.deepEqual(parseAction(JSON.stringify({ action: CLICK }), 1), { action: CLICK });
+    assert.throws(() => parseAction(JSON.stringify({ actions: [CLICK] }), 1), /action: Required/);
+  });
+
+  it('explains batching in the prompt only when it is enabled', () => {
+    assert.match(buildSystemPrompt({ maxBatchActions: 4 }), /"actions" \(up to 4\)/);
+    assert.doesNotMatch(buildSystemPrompt(), /"actions" \(up to/);
+    assert.doesNotMatch(buildSystemPrompt({ maxBatchActions: 4, plan: true }), /BATCH EXAMPLE/);
+  });
+});
+
+describe('parsePlan', () => {
+  const FILL = { type: 'fill', locator: { kind: 'label', text: 'Email' }, text: 'a@b.c' };
+
+  it('parses plans with URL preconditions', () => {
+    const reply = JSON.stringify({ plan: [{ action: FILL }, { action: CLICK, expectUrl: '/login' }] });
+    assert.deepEqual(parsePlan(reply), { plan: [{ action: FILL }, { action: CLICK, expectUrl: '/login' }] });
+  });
+
+  it('treats a single action or a batch as a plan', () => {
+    assert.deepEqual(parsePlan(JSON.stringify({ actions: [FILL, CLICK] })), {
+      plan: [{ action: FILL }, { action: CLICK }],
+    });
+  });
+
+  it('treats a single-action reply as a one-step plan', () => {
+    assert.deepEqual(parsePlan(JSON.stringify({ thinking: 'one click', action: CLICK })), {
+      thinking: 'one click',
+      plan: [{ action: CLICK }],
+    });
+  });
+
+  it('rejects empty and overlong plans', () => {
+    assert.throws(() => parsePlan('{"plan": []}'), /^ActionParseError: Invalid plan: plan: /);
+    const long = JSON.stringify({ plan: Array.from({ length: MAX_PLAN_LENGTH + 1 }, () => ({ action: CLICK })) });
+    assert.throws(() => parsePlan(long), ActionParseError);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the prompt token budget.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/promptBudget.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fitSections, modelBudget, truncateToTokens, DEFAULT_MODEL_BUDGET } from '../promptBudget.js';
+import { buildPromptSections, buildUserPrompt, renderPromptSections } from '../prompt.js';
+import { ConversationMemory, estimateTokens } from '../conversation.js';
+import type { Observation } from '../observation.js';
+
+const observation: Observation = {
+  url: 'https://example.com/login',
+  title: 'Login',
+  ariaSnapshot: Array.from({ length: 200 }, (_, i) => `- link "Article ${i}"`).join('\n') + '\n- button "Log in"',
+  shortText: 'Lorem ipsum dolor sit amet. '.repeat(100),
+  lastError: null,
+  previousActions: [],
+  tickNumber: 3,
+};
+
+const context = {
+  goal: 'Log in',
+  expectations: [{ type: 'url_contains' as const, value: '/dashboard' }],
+  observation,
+};
+
+describe('modelBudget', () => {
+  it('looks models up in the table', () => {
+    assert.equal(modelBudget('unsloth/Llama-3.2-3B-Instruct').contextTokens, 128_000);
+    assert.equal(modelBudget('qwen2.5:7b').contextTokens, 32_768);
+  });
+
+  it('falls back to the default and honours overrides', () => {
+    assert.deepEqual(modelBudget('some-unknown-model'), DEFAULT_MODEL_BUDGET);
+    assert.deepEqual(modelBudget(null, { contextTokens: 2048 }), { contextTokens: 2048, outputTokens: 1024 });
+  });
+});
+
+describe('fitSections', () => {
+  it('leaves prompts within budget alone', () => {
+    const { sections, report } = fitSections(buildPromptSections(context), 100_000);
+    assert.equal(renderPromptSections(sections), buildUserPrompt(context));
+    assert.deepEqual(report.shrunk, []);
+  });
+
+  it('shrinks the lowest-priority sections first', () => {
+    const full = fitSections(buildPromptSections(context), 100_000).report;
+    const budget = full.totalTokens - 200;
+    const { sections, report } = fitSections(buildPromptSections(context), budget);
+    assert.deepEqual(report.shrunk, ['textExcerpt']);
+    assert.ok(report.totalTokens <= budget);
+    assert.equal(report.sections.snapshot, full.sections.snapshot);
+    assert.match(renderPromptSections(sections), /GOAL: Log in/);
+  });
+
+  it('prunes the snapshot once the text excerpt is gone', () => {
+    const { sections, report } = fitSections(buildPromptSections(context), 600);
+    assert.deepEqual(report.shrunk, ['textExcerpt', 'snapshot']);
+    assert.ok(report.totalTokens <= 600, `got ${report.totalTokens}`);
+    const prompt = renderPromptSections(sections);
+    assert.match(prompt, /- button "Log in"/);
+    assert.match(prompt, /… \(\d+ items\)/);
+    assert.match(prompt, /url_contains: "\/dashboard"/);
+  });
+
+  it('never shrinks fixed sections', () => {
+    const { report } = fitSections([{ name: 'goal', priority: Infinity, text: 'x'.repeat(400) }], 10);
+    assert.equal(report.totalTokens, 100);
+    assert.deepEqual(report.shrunk, []);
+  });
+});
+
+describe('ConversationMemory.messages', () => {
+  it('summarises older turns to fit a tighter budget without losing them', () => {
+    const memory = new ConversationMemory({ tokenWindow: 100_000 });
+    for (let tick = 1; tick <= 5; tick++) {
+      memory.recordTurn({ ...observation, tickNumber: tick }, `{"action":{"type":"wait","ms":${tick}}} ${'x'.repeat(200)}`);
+    }
+    const full = memory.messages();
+    const tight = memory.messages(150);
+    const tokens = tight.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    assert.ok(tokens <= 150, `got ${tokens}`);
+    assert.match(tight[0]!.content, /EARLIER TICKS/);
+    assert.deepEqual(memory.messages(), full);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('cuts to the budget and marks the cut', () => {
+    const text = truncateToTokens('a'.repeat(1000), 50);
+    assert.ok(estimateTokens(text) <= 50);
+    assert.match(text, /\[truncated\]$/);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the JSON Schema generated from the action Zod schemas.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/responseSchema.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { ActionSchema, LocatorSpecSchema, PlanResponseSchema, llmResponseSchema, parseAction } from '../actionSchema.js';
+import {
+  zodToJsonSchema,
+  renderSchemaForPrompt,
+  actionResponseFormat,
+  ACTION_RESPONSE_FORMAT,
+  PLAN_RESPONSE_FORMAT,
+  type JsonSchema,
+} from '../responseSchema.js';
+import { buildSystemPrompt } from '../prompt.js';
+
+type Variant = { properties: Record<string, JsonSchema>; required: string[] };
+
+function defs(): Record<string, { anyOf: Variant[] }> {
+  return ACTION_RESPONSE_FORMAT.schema.$defs as Record<string, { anyOf: Variant[] }>;
+}
+
+describe('zodToJsonSchema', () => {
+  it('converts objects, optionals, enums and number bounds', () => {
+    const schema = z.object({
+      name: z.string().describe('Who'),
+      mode: z.enum(['a', 'b']),
+      ms: z.number().int().min(100).max(200),
+      note: z.string().optional(),
+    });
+    assert.deepEqual(zodToJsonSchema(schema), {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Who' },
+        mode: { type: 'string', enum: ['a', 'b'] },
+        ms: { type: 'integer', minimum: 100, maximum: 200 },
+        note: { type: 'string' },
+      },
+      required: ['name', 'mode', 'ms'],
+      additionalProperties: false,
+    });
+  });
+
+  it('makes optional fields required and nullable in strict mode', () => {
+    const schema = zodToJsonSchema(z.object({ note: z.string().optional() }), { strict: true });
+    assert.deepEqual(schema.required, ['note']);
+    assert.deepEqual((schema.properties as Record<string, JsonSchema>).note, {
+      anyOf: [{ type: 'string' }, { type: 'null' }],
+    });
+  });
+
+  it('rejects Zod types it cannot represent', () => {
+    assert.throws(() => zodToJsonSchema(z.object({ when: z.date() })), /Unsupported Zod type/);
+  });
+});
+
+describe('ACTION_RESPONSE_FORMAT', () => {
+  it('covers every action type and locator kind in ActionSchema', () => {
+    const actionTypes = defs().Action!.anyOf.map(v => (v.properties.type!.enum as string[])[0]);
+    const locatorKinds = defs().Locator!.anyOf.map(v => (v.properties.kind!.enum as string[])[0]);
+    assert.deepEqual(actionTypes, ActionSchema.options.map(o => o.shape.type.value));
+    assert.deepEqual(locatorKinds, LocatorSpecSchema.options.map(o => o.shape.kind.value));
+  });
+
+  it('follows strict structured-output rules', () => {
+    for (const variant of [...defs().Action!.anyOf, ...defs().Locator!.anyOf]) {
+      assert.deepEqual(variant.required, Object.keys(variant.properties));
+    }
+  });
+
+  it('parses strict output where omitted fields come back as null', () => {
+    const parsed = parseAction(JSON.stringify({
+      thinking: null,
+      action: { type: 'press', key: 'Enter', locator: null, description: null },
+    }));
+    assert.deepEqual(parsed, { action: { type: 'press', key: 'Enter' } });
+  });
+});
+
+describe('prompt schema section', () => {
+  it('is generated from the same schema', () => {
+    const prompt = buildSystemPrompt();
+    assert.ok(prompt.includes(renderSchemaForPrompt(llmResponseSchema(1))));
+    for (const option of ActionSchema.options) {
+      assert.ok(prompt.includes(`{ "type": "${option.shape.type.value}"`), option.shape.type.value);
+    }
+    assert.match(prompt, /"ms": number \(100-10000\)/);
+    assert.match(prompt, /"locator"\?: Locator/);
+  });
+
+  it('offers batches only up to the configured cap', () => {
+    assert.doesNotMatch(buildSystemPrompt({ maxBatchActions: 1 }), /"actions"/);
+    assert.match(buildSystemPrompt({ maxBatchActions: 1 }), /^\{ "thinking"\?: string, "action": Action \}$/m);
+    assert.match(buildSystemPrompt({ maxBatchActions: 5 }), /"actions"\?: Action\[\] \(1-5 items\)/);
+  });
+
+  it('switches to the plan schema in plan mode', () => {
+    const prompt = buildSystemPrompt({ plan: true });
+    assert.ok(prompt.includes(`PLAN SCHEMA (optional fields marked with ?):\n${renderSchemaForPrompt(PlanResponseSchema)}`));
+    assert.match(prompt, /Reply with a plan/);
+    assert.doesNotMatch(prompt, /One action per response/);
+  });
+});
+
+describe('actionResponseFormat', () => {
+  it('caps batches the way the prompt does', () => {
+    const properties = (cap: number) => actionResponseFormat(cap).schema.properties as Record<string, JsonSchema>;
+    assert.match(JSON.stringify(properties(5).actions), /"maxItems":5/);
+    assert.equal(properties(1).actions, undefined);
+    assert.deepEqual(actionResponseFormat(1).schema.required, ['thinking', 'action']);
+  });
+});
+
+describe('PLAN_RESPONSE_FORMAT', () => {
+  it('wraps the shared action definitions in a bounded plan array', () => {
+    const plan = (PLAN_RESPONSE_FORMAT.schema.properties as Record<string, JsonSchema>).plan!;
+    assert.equal(plan.type, 'array');
+    assert.equal(plan.maxItems, 15);
+    assert.deepEqual(PLAN_RESPONSE_FORMAT.schema.$defs, ACTION_RESPONSE_FORMAT.schema.$defs);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for secret-aware variable handling.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/secrets.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SecretVariables } from '../secrets.js';
+
+describe('SecretVariables', () => {
+  const vars = new SecretVariables(
+    { TEST_USERNAME: 'alice', TEST_PASSWORD: 'hunter2', PIN_CODE: '4321' },
+    ['PIN_CODE'],
+  );
+
+  it('keeps secrets as placeholders in prompt text', () => {
+    const goal = vars.forPrompt(
+      'Log in as ${ENV.TEST_USERNAME} with ${ENV.TEST_PASSWORD} and ${ENV.PIN_CODE}',
+    );
+    assert.equal(
+      goal,
+      'Log in as alice with {{secret:TEST_PASSWORD}} and {{secret:PIN_CODE}}',
+    );
+  });
+
+  it('resolves placeholders and env references at the page boundary', () => {
+    assert.equal(vars.resolve('{{secret:TEST_PASSWORD}}'), 'hunter2');
+    assert.equal(vars.resolve('${ENV.TEST_USERNAME}'), 'alice');
+  });
+
+  it('leaves unknown variables untouched', () => {
+    assert.equal(vars.resolve('{{secret:NOPE_PASSWORD}}'), '{{secret:NOPE_PASSWORD}}');
+  });
+
+  it('scrubs secret values from nested structures', () => {
+    const scrubbed = vars.scrubDeep({
+      error: 'fill "hunter2" failed',
+      list: ['4321', 'alice'],
+      count: 3,
+    });
+    assert.deepEqual(scrubbed, {
+      error: 'fill "{{secret:TEST_PASSWORD}}" failed',
+      list: ['{{secret:PIN_CODE}}', 'alice'],
+      count: 3,
+    });
+  });
+
+  it('scrubs short values only where they stand alone', () => {
+    assert.equal(
+      vars.scrub('PIN 4321 rejected at https://bank.example.com/orders/143210?ref=a4321'),
+      'PIN {{secret:PIN_CODE}} rejected at https://bank.example.com/orders/143210?ref=a4321',
+    );
+    assert.equal(vars.scrub('typed hunter2'), 'typed {{secret:TEST_PASSWORD}}');
+  });
+
+  it('scrubs long values wherever they appear', () => {
+    const long = new SecretVariables({ API_TOKEN: 'tok_5f2a9c' });
+    assert.equal(long.scrub('https://api.example.com/?key=xtok_5f2a9cx'), 'https://api.example.com/?key=x{{secret:API_TOKEN}}x');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for tree-aware snapshot pruning.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/snapshotPruner.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { pruneAriaSnapshot } from '../snapshotPruner.js';
+import { estimateTokens } from '../conversation.js';
+
+const footerLinks = Array.from({ length: 40 }, (_, i) => `    - link "Footer link ${i}"`);
+const articles = Array.from({ length: 30 }, (_, i) => `    - paragraph: Article ${i} with a fairly long body of filler text`);
+
+const SNAPSHOT = [
+  '- banner:',
+  '  - link "Home"',
+  '- main:',
+  '  - heading "News" [level=1]',
+  '  - region "Articles":',
+  ...articles,
+  '- dialog "Newsletter":',
+  '  - textbox "Email"',
+  '  - button "Subscribe"',
+  '- contentinfo:',
+  '  - list:',
+  ...footerLinks,
+].join('\n');
+
+describe('pruneAriaSnapshot', () => {
+  it('returns snapshots within budget unchanged', () => {
+    assert.equal(pruneAriaSnapshot(SNAPSHOT, { maxTokens: 100_000 }), SNAPSHOT);
+  });
+
+  it('stays within the token budget', () => {
+    const pruned = pruneAriaSnapshot(SNAPSHOT, { maxTokens: 200 });
+    assert.ok(estimateTokens(pruned) <= 200, `got ${estimateTokens(pruned)} tokens`);
+  });
+
+  it('keeps matching controls with their ancestor path', () => {
+    const pruned = pruneAriaSnapshot(SNAPSHOT, { maxTokens: 120, keywords: ['footer link 7'] });
+    const lines = pruned.split('\n');
+    const link = lines.indexOf('    - link "Footer link 7"');
+    assert.ok(link > 0, pruned);
+    assert.ok(lines.indexOf('- contentinfo:') < link);
+    assert.ok(lines.indexOf('  - list:') < link);
+  });
+
+  it('prefers dialogs over filler content', () => {
+    const pruned = pruneAriaSnapshot(SNAPSHOT, { maxTokens: 120 });
+    assert.match(pruned, /- dialog "Newsletter":\n {2}- textbox "Email"\n {2}- button "Subscribe"/);
+    assert.doesNotMatch(pruned, /Article 29/);
+  });
+
+  it('collapses dropped siblings into one marker at their indentation', () => {
+    const pruned = pruneAriaSnapshot(SNAPSHOT, { maxTokens: 120, keywords: ['footer link 7'] });
+    assert.match(pruned, / {4}- … \(\d+ items\)\n {4}- link "Footer link 7"\n {4}- … \(32 items\)/);
+  });
+
+  it('keeps the focused element', () => {
+    const pruned = pruneAriaSnapshot(SNAPSHOT, { maxTokens: 120, focused: '- link "Footer link 33"' });
+    assert.match(pruned, /link "Footer link 33"/);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for tab lookup and how open tabs reach the prompt.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/tabs.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Page } from '@playwright/test';
+import { findTab } from '../tabs.js';
+import { buildUserPrompt } from '../prompt.js';
+import type { Observation } from '../observation.js';
+
+function fakePage(url: string, title: string): Page {
+  return { url: () => url, title: async () => title } as unknown as Page;
+}
+
+const shop = fakePage('https://shop.example.com/cart', 'Cart');
+const login = fakePage('https://accounts.example.com/oauth?client=shop', 'Sign in with Example');
+
+describe('findTab', () => {
+  it('finds tabs by index', async () => {
+    assert.equal(await findTab([shop, login], 1), login);
+    assert.equal(await findTab([shop, login], 2), undefined);
+  });
+
+  it('finds tabs by text in the URL or title', async () => {
+    assert.equal(await findTab([shop, login], 'accounts.example.com'), login);
+    assert.equal(await findTab([shop, login], 'Cart'), shop);
+    assert.equal(await findTab([shop, login], 'checkout'), undefined);
+  });
+});
+
+describe('tabs in the prompt', () => {
+  const observation: Observation = {
+    url: 'https://accounts.example.com/oauth?client=shop',
+    title: 'Sign in with Example',
+    ariaSnapshot: '- button "Continue"',
+    shortText: '',
+    lastError: null,
+    previousActions: [],
+    tickNumber: 2,
+  };
+
+  it('lists open tabs and marks the active one', () => {
+    const prompt = buildUserPrompt({
+      goal: 'Sign in',
+      expectations: [{ type: 'url_contains', value: '/cart', tab: 0 }],
+      observation: {
+        ...observation,
+        tabs: [
+          { index: 0, title: 'Cart', url: 'https://shop.example.com/cart', active: false },
+          { index: 1, title: '', url: 'https://accounts.example.com/oauth?client=shop', active: true },
+        ],
+      },
+    });
+    assert.match(prompt, /Tabs:\n {2}\[0\] Cart - https:\/\/shop\.example\.com\/cart\n {2}\[1\] \(untitled\) - https:\/\/accounts\.example\.com\/oauth\?client=shop \(active\)/);
+    assert.match(prompt, /url_contains: "\/cart" \(tab 0\)/);
+  });
+
+  it('leaves tabs out with a single tab', () => {
+    assert.doesNotMatch(buildUserPrompt({ goal: 'Sign in', expectations: [], observation }), /Tabs:/);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the trajectory cache.
+ *
+ * Run via:  npx tsx --test src/agent/__tests__/trajectoryCache.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TrajectoryCache, structureFingerprint, type TrajectoryKey } from '../trajectoryCache.js';
+
+describe('structureFingerprint', () => {
+  it('ignores query strings, field values and digits', () => {
+    const a = structureFingerprint(
+      'https://example.com/orders?page=1',
+      '- textbox "Search": foo\n- row "Order 12"',
+    );
+    const b = structureFingerprint(
+      'https://example.com/orders?page=2',
+      '- textbox "Search": bar\n- row "Order 345"',
+    );
+    assert.equal(a, b);
+  });
+
+  it('changes when the page structure changes', () => {
+    const a = structureFingerprint('https://example.com/', '- button "Login"');
+    const b = structureFingerprint('https://example.com/', '- button "Logout"');
+    assert.notEqual(a, b);
+  });
+});
+
+describe('TrajectoryCache', () => {
+  let dir: string;
+  const key: TrajectoryKey = {
+    testCaseId: 'example-login',
+    stepIndex: 1,
+    goal: 'Enter the password ${ENV.TEST_PASSWORD}',
+    fingerprint: 'https://example.com/login#abc',
+  };
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'qacr-trajectories-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves, reloads and invalidates trajectories', () => {
+    const cache = new TrajectoryCache(dir);
+    assert.equal(cache.get(key), null);
+
+    cache.save(key, [
+      {
+        type: 'fill',
+        locator: { kind: 'label', text: 'Password' },
+        text: '{{secret:TEST_PASSWORD}}',
+      },
+    ]);
+
+    const reloaded = new TrajectoryCache(dir).get(key);
+    assert.equal(reloaded?.actions.length, 1);
+    assert.equal(new TrajectoryCache(dir).get({ ...key, goal: 'other goal' }), null);
+
+    cache.invalidate(key);
+    assert.equal(cache.get(key), null);
+  });
+});
@@ -1,40 +1,137 @@
 import { z } from 'zod';
+import { extractJsonCandidates, parseLenientJson } from './jsonRepair.js';
+
+const RefTarget = z.object({
+  kind: z.literal('ref'),
+  ref: z.string().describe('Element ref from the latest snapshot (e.g., e12)'),
+});
+const RoleTarget = z.object({
+  kind: z.literal('role'),
+  role: z.string().describe('ARIA role (e.g., button, textbox, link, heading)'),
+  name: z.string().describe('Accessible name from aria-label or text content'),
+  exact: z.boolean().optional().describe('Exact match for name'),
+});
+const LabelTarget = z.object({
+  kind: z.literal('label'),
+  text: z.string().describe('Label text (for form fields)'),
+  exact: z.boolean().optional(),
+});
+const TestIdTarget = z.object({
+  kind: z.literal('testid'),
+  id: z.string().describe('data-testid attribute value'),
+});
+const TextTarget = z.object({
+  kind: z.literal('text'),
+  text: z.string().describe('Visible text content'),
+  exact: z.boolean().optional(),
+});
+const PlaceholderTarget = z.object({
+  kind: z.literal('placeholder'),
+  text: z.string().describe('Placeholder text of an input'),
+  exact: z.boolean().optional(),
+});
+const AltTarget = z.object({
+  kind: z.literal('alt'),
+  text: z.string().describe('Alt text of an image'),
+  exact: z.boolean().optional(),
+});
+const TitleTarget = z.object({
+  kind: z.literal('title'),
+  text: z.string().describe('title attribute value'),
+  exact: z.boolean().optional(),
+});
+const CssTarget = z.object({
+  kind: z.literal('css'),
+  selector: z.string().describe('CSS selector (last resort)'),
+});
+const XPathTarget = z.object({
+  kind: z.literal('xpath'),
+  expression: z.string().describe('XPath expression (last resort)'),
+});
+const ActiveTarget = z.object({
+  kind: z.literal('active'),
+}).describe('Currently focused element');
+
+type LocatorTarget = z.infer<
+  | typeof RefTarget
+  | typeof RoleTarget
+  | typeof LabelTarget
+  | typeof TestIdTarget
+  | typeof TextTarget
+  | typeof PlaceholderTarget
+  | typeof AltTarget
+  | typeof TitleTarget
+  | typeof CssTarget
+  | typeof XPathTarget
+  | typeof ActiveTarget
+>;
+
+/**
+ * Conditions on the matched elements' contents (Playwright's `locator.filter`)
+ */
+export interface LocatorFilter {
+  has?: LocatorSpec;
+  hasNot?: LocatorSpec;
+  hasText?: string;
+  hasNotText?: string;
+}
+
+/**
+ * Scoping and narrowing options shared by every locator kind, for when the
+ * target alone matches several elements
+ */
+export interface LocatorFilters {
+  within?: LocatorSpec;
+  filter?: LocatorFilter;
+  /** Shorthand for `filter.hasText` */
+  hasText?: string;
+  nth?: number;
+  last?: boolean;
+  /** Frame to search in (index, name or URL part); nested specs use their parent's */
+  frame?: string;
+}
+
+export type LocatorSpec = LocatorTarget & LocatorFilters;
+
+const nestedLocator = z.lazy((): z.ZodType<LocatorSpec> => LocatorSpecSchema);
+
+const LocatorFilterSchema = z.object({
+  has: nestedLocator.optional().describe('Only elements containing a match for this locator'),
+  hasNot: nestedLocator.optional().describe('Only elements without a match for this locator'),
+  hasText: z.string().optional(),
+  hasNotText: z.string().optional(),
+});
+
+const locatorFilters = {
+  within: nestedLocator.optional()
+    .describe('Parent element to search inside (e.g., the dialog or table row)'),
+  filter: LocatorFilterSchema.optional().describe('Keep only matches whose contents fit'),
+  hasText: z.string().optional().describe('Only elements containing this text'),
+  nth: z.number().int().min(0).optional().describe('0-based index when several elements still match'),
+  last: z.boolean().optional().describe('Take the last match'),
+  frame: z.string().optional().describe('Frame to search in: the index, name or URL part from its "- frame" label'),
+};
 
 /**
  * Locator specification - how to find an element on the page.
- * Ordered by preference: role > label > testid > text > css > active
+ * Ordered by preference: ref > role > label > testid > text > placeholder/alt/title > css/xpath > active
  */
 export const LocatorSpecSchema = z.discriminatedUnion('kind', [
-  z.object({
-    kind: z.literal('role'),
-    role: z.string().describe('ARIA role (e.g., button, textbox, link, heading)'),
-    name: z.string().describe('Accessible name from aria-label or text content'),
-    exact: z.boolean().optional().describe('Exact match for name'),
-  }),
-  z.object({
-    kind: z.literal('label'),
-    text: z.string().describe('Label text (for form fields)'),
-    exact: z.boolean().optional(),
-  }),
-  z.object({
-    kind: z.literal('testid'),
-    id: z.string().describe('data-testid attribute value'),
-  }),
-  z.object({
-    kind: z.literal('text'),
-    text: z.string().describe('Visible text content'),
-    exact: z.boolean().optional(),
-  }),
-  z.object({
-    kind: z.literal('css'),
-    selector: z.string().describe('CSS selector (last resort)'),
-  }),
-  z.object({
-    kind: z.literal('active'),
-  }).describe('Currently focused element'),
+  RefTarget.extend(locatorFilters),
+  RoleTarget.extend(locatorFilters),
+  LabelTarget.extend(locatorFilters),
+  TestIdTarget.extend(locatorFilters),
+  TextTarget.extend(locatorFilters),
+  PlaceholderTarget.extend(locatorFilters),
+  AltTarget.extend(locatorFilters),
+  TitleTarget.extend(locatorFilters),
+  CssTarget.extend(locatorFilters),
+  XPathTarget.extend(locatorFilters),
+  ActiveTarget.extend(locatorFilters),
 ]);
 
-export type LocatorSpec = z.infer<typeof LocatorSpecSchema>;
+/** Pixels a `scroll` with a direction moves when it has no `amount` */
+export const DEFAULT_SCROLL_AMOUNT = 600;
 
 /**
  * Action types the LLM can choose from
@@ -45,6 +142,36 @@ export const ActionSchema = z.discriminatedUnion('type', [
     locator: LocatorSpecSchema,
     description: z.string().optional().describe('Why this click'),
   }),
+  z.object({
+    type: z.literal('dblclick'),
+    locator: LocatorSpecSchema,
+    description: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('rightclick'),
+    locator: LocatorSpecSchema,
+    description: z.string().optional().describe('Opens the context menu'),
+  }),
+  z.object({
+    type: z.literal('hover'),
+    locator: LocatorSpecSchema,
+    description: z.string().optional().describe('E.g. to open a menu that shows on hover'),
+  }),
+  z.object({
+    type: z.literal('drag'),
+    // No .describe() here: a described copy of the schema is no longer emitted as a Locator reference
+    source: LocatorSpecSchema,
+    target: LocatorSpecSchema,
+    description: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('scroll'),
+    locator: LocatorSpecSchema.optional()
+      .describe('Element to scroll inside, or to scroll into view when there is no direction; the page when omitted'),
+    direction: z.enum(['up', 'down', 'left', 'right']).optional(),
+    amount: z.number().int().min(50).max(10000).optional().describe(`Pixels (default ${DEFAULT_SCROLL_AMOUNT})`),
+    description: z.string().optional(),
+  }),
   z.object({
     type: z.literal('fill'),
     locator: LocatorSpecSchema,
@@ -57,6 +184,15 @@ export const ActionSchema = z.discriminatedUnion('type', [
     locator: LocatorSpecSchema.optional().describe('Element to focus first'),
     description: z.string().optional(),
   }),
+  z.object({
+    type: z.literal('fill_form'),
+    fields: z.array(z.object({
+      label: z.string().describe('Label of the form field'),
+      value: z.string().describe('Text to enter, option to select, or "true"/"false" for a checkbox'),
+    })).min(1),
+    frame: z.string().optional().describe('Frame holding the form, as for locators'),
+    description: z.string().optional(),
+  }),
   z.object({
     type: z.literal('select'),
     locator: LocatorSpecSchema,
@@ -69,6 +205,12 @@ export const ActionSchema = z.discriminatedUnion('type', [
     checked: z.boolean().describe('Check or uncheck'),
     description: z.string().optional(),
   }),
+  z.object({
+    type: z.literal('upload'),
+    locator: LocatorSpecSchema,
+    files: z.array(z.string()).min(1).describe('Paths from "Files for upload"'),
+    description: z.string().optional(),
+  }),
   z.object({
     type: z.literal('wait'),
     ms: z.number().min(100).max(10000).describe('Milliseconds to wait'),
@@ -79,11 +221,28 @@ export const ActionSchema = z.discriminatedUnion('type', [
     url: z.string().url().describe('URL to navigate to'),
     description: z.string().optional(),
   }),
+  z.object({
+    type: z.literal('switch_tab'),
+    tab: z.number().int().min(0).describe('Index from "Tabs"'),
+    description: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('close_tab'),
+    tab: z.number().int().min(0).optional().describe('Index from "Tabs"; the active tab if omitted'),
+    description: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('dialog'),
+    accept: z.boolean().describe('OK (true) or Cancel (false) on the open dialog'),
+    text: z.string().optional().describe('Answer typed into a prompt dialog'),
+    description: z.string().optional(),
+  }),
   z.object({
     type: z.literal('assert'),
-    assertType: z.enum(['visible_text', 'url_contains', 'locator_visible']),
+    assertType: z.enum(['visible_text', 'url_contains', 'locator_visible', 'download_name_matches', 'download_contains', 'dialog_shown']),
     value: z.string().describe('Value to assert'),
     locator: LocatorSpecSchema.optional().describe('For locator_visible'),
+    tab: z.number().int().min(0).optional().describe('Index from "Tabs"; the active tab if omitted'),
     description: z.string().optional(),
   }),
   z.object({
@@ -95,25 +254,187 @@ export const ActionSchema = z.discriminatedUnion('type', [
 export type Action = z.infer<typeof ActionSchema>;
 
 /**
- * LLM response wrapper - must contain exactly one action
+ * Most actions one reply may batch; the runner's own cap can be lower
+ */
+export const MAX_BATCH_ACTIONS = 10;
+
+const batchOf = (maxActions: number) =>
+  z.array(ActionSchema).min(1).max(maxActions, `at most ${maxActions} actions per reply`).optional()
+    .describe('Several actions to run in order, instead of "action"');
+
+const oneOfActionOrBatch = (response: { action?: unknown; actions?: unknown }) =>
+  (response.action === undefined) !== (response.actions === undefined);
+
+/**
+ * LLM response wrapper - one action, or a batch of actions run in order
  */
-export const LLMResponseSchema = z.object({
+const LLMResponseObject = z.object({
   thinking: z.string().optional().describe('Brief reasoning (for debugging)'),
-  action: ActionSchema,
+  action: ActionSchema.optional().describe('The next action'),
+  actions: batchOf(MAX_BATCH_ACTIONS),
 });
 
+// Annotated: the inferred type is too large for the compiler to serialize
+export const LLMResponseSchema: z.ZodEffects<typeof LLMResponseObject> = LLMResponseObject.refine(
+  oneOfActionOrBatch,
+  'Reply with either "action" or "actions"'
+);
+
 export type LLMResponse = z.infer<typeof LLMResponseSchema>;
 
 /**
- * Parse and validate LLM output
+ * The response schema for a runner that batches at most `maxActions` actions
+ * per reply. The prompt, the response format and `parseAction` all use it, so
+ * they agree on the cap; with 1 there is no "actions" field at all.
+ */
+export function llmResponseSchema(maxActions = MAX_BATCH_ACTIONS): z.ZodType<LLMResponse, z.ZodTypeDef, unknown> {
+  if (maxActions <= 1) {
+    // No .describe() on the action: a described copy is no longer emitted as an Action reference
+    return z.object({ thinking: LLMResponseObject.shape.thinking, action: ActionSchema });
+  }
+  if (maxActions >= MAX_BATCH_ACTIONS) return LLMResponseSchema;
+  return LLMResponseObject.extend({ actions: batchOf(maxActions) })
+    .refine(oneOfActionOrBatch, 'Reply with either "action" or "actions"');
+}
+
+/**
+ * Longest plan the runner accepts in plan mode
+ */
+export const MAX_PLAN_LENGTH = 15;
+
+/**
+ * One action of a plan, with what the page should look like before it runs
+ */
+export const PlanStepSchema = z.object({
+  action: ActionSchema,
+  expectUrl: z.string().optional().describe('Part of the URL the page must be on before this action'),
+});
+
+export type PlanStep = z.infer<typeof PlanStepSchema>;
+
+/**
+ * Response format in plan mode: every action for the step, in order
+ */
+export const PlanResponseSchema = z.object({
+  thinking: z.string().optional().describe('Brief reasoning (for debugging)'),
+  plan: z.array(PlanStepSchema).min(1).max(MAX_PLAN_LENGTH),
+});
+
+export type PlanResponse = z.infer<typeof PlanResponseSchema>;
+
+/**
+ * Drop null-valued keys. Strict structured output sends omitted optional
+ * fields as null, which the Zod schema expects to be absent.
+ */
+function dropNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(dropNulls);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => [k, dropNulls(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * The LLM reply did not contain a valid action. `issues` are short,
+ * model-readable reasons used to ask the model for a correction.
+ */
+export class ActionParseError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'ActionParseError';
+    this.issues = issues;
+  }
+}
+
+function formatIssues(issues: z.ZodIssue[]): string[] {
+  return issues.slice(0, 5).map(issue => {
+    const path = issue.path.length ? issue.path.join('.') : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+}
+
+/**
+ * Shapes to validate for a parsed object: as-is, plus wrapped in
+ * `{ action }` when the model returned a bare action
+ */
+function responseShapes(value: unknown): unknown[] {
+  const shapes = [value];
+  if (value && typeof value === 'object' && !('action' in value) && !('actions' in value) && 'type' in value) {
+    shapes.push({ action: value });
+  }
+  return shapes;
+}
+
+/**
+ * Plan shapes to validate: as-is, plus a single action or a batch as a plan
+ */
+function planShapes(value: unknown): unknown[] {
+  const shapes = [value];
+  if (value && typeof value === 'object' && !('plan' in value)) {
+    for (const shape of responseShapes(value)) {
+      const { action, actions, ...rest } = shape as { action?: unknown; actions?: unknown };
+      if (action !== undefined) shapes.push({ ...rest, plan: [{ action }] });
+      if (Array.isArray(actions)) shapes.push({ ...rest, plan: actions.map(a => ({ action: a })) });
+    }
+  }
+  return shapes;
+}
+
+/**
+ * Parse and validate LLM output.
+ *
+ * Scans fenced blocks and balanced `{...}` spans, repairs common JSON
+ * mistakes, and returns the first candidate that validates against the
+ * response schema for `maxActions` (see `llmResponseSchema`). A batch
+ * longer than that is rejected with an issue the model can correct.
+ */
+export function parseAction(jsonString: string, maxActions = MAX_BATCH_ACTIONS): LLMResponse {
+  return parseWithSchema(jsonString, llmResponseSchema(maxActions), responseShapes, 'action');
+}
+
+/**
+ * Parse and validate a plan-mode reply, like `parseAction`
  */
-export function parseAction(jsonString: string): LLMResponse {
-  // Try to extract JSON from the response (LLMs sometimes add extra text)
-  const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error(`No JSON object found in LLM response: ${jsonString.slice(0, 200)}`);
+export function parsePlan(jsonString: string): PlanResponse {
+  return parseWithSchema(jsonString, PlanResponseSchema, planShapes, 'plan');
+}
+
+function parseWithSchema<T>(
+  jsonString: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  shapes: (value: unknown) => unknown[],
+  what: string
+): T {
+  const candidates = extractJsonCandidates(jsonString);
+  if (candidates.length === 0) {
+    throw new ActionParseError(
+      `No JSON object found in LLM response: ${jsonString.slice(0, 200)}`,
+      ['No JSON object found. Reply with a single JSON object.']
+    );
+  }
+
+  let issues: string[] | null = null;
+  for (const candidate of candidates) {
+    const value = parseLenientJson(candidate);
+    if (value === undefined) continue;
+    for (const shape of shapes(value)) {
+      const result = schema.safeParse(dropNulls(shape));
+      if (result.success) return result.data;
+      issues ??= formatIssues(result.error.issues);
+    }
+  }
+
+  if (!issues) {
+    throw new ActionParseError(
+      `Invalid JSON in LLM response: ${candidates[0]!.slice(0, 200)}`,
+      ['The reply is not valid JSON (check quotes, commas and brackets).']
+    );
   }
-  
-  const parsed = JSON.parse(jsonMatch[0]);
-  return LLMResponseSchema.parse(parsed);
+  throw new ActionParseError(`Invalid ${what}: ${issues.join('; ')}`, issues);
 }
@@ -0,0 +1,194 @@
+/**
+ * Structural diffs between ARIA snapshots of consecutive ticks.
+ *
+ * Nodes are matched by their path of ancestors plus role and name, so a
+ * typed value or toggled checkbox shows up as a change to one node rather
+ * than a re-sent page.
+ */
+
+import { INTERACTIVE_ROLES } from './elementRefs.js';
+
+export interface AriaNode {
+  /** Stable identity: ancestor path + role/name + occurrence */
+  key: string;
+  parentKey: string | null;
+  role: string;
+  name?: string;
+  /** Attributes and value after the role/name, e.g. `[checked]` or `: jane@example.com` */
+  state: string;
+  /** Line content without indentation or `- ` marker (refs kept) */
+  label: string;
+  /** Line range [start, end) of the node and its children in the snapshot */
+  start: number;
+  end: number;
+}
+
+export interface AriaDiff {
+  added: AriaNode[];
+  removed: AriaNode[];
+  changed: Array<{ before: AriaNode; after: AriaNode }>;
+}
+
+const LINE_RE = /^(\s*)- (.*)$/;
+const NODE_RE = /^([a-z/][\w-]*)(?: ("(?:[^"\\]|\\.)*"))?(.*)$/;
+const REF_RE = / \[ref=e\d+\]/g;
+
+function unquote(quoted: string): string {
+  try {
+    return JSON.parse(quoted) as string;
+  } catch {
+    return quoted.slice(1, -1);
+  }
+}
+
+/**
+ * Parse an ARIA snapshot into nodes with stable keys
+ */
+export function parseAriaNodes(snapshot: string): AriaNode[] {
+  const lines = snapshot.split('\n');
+  const nodes: AriaNode[] = [];
+  const stack: Array<{ indent: number; node: AriaNode }> = [];
+  const occurrences = new Map<string, number>();
+
+  lines.forEach((line, index) => {
+    const match = line.match(LINE_RE);
+    if (!match) return;
+    const indent = match[1]!.length;
+    const label = match[2]!;
+
+    while (stack.length > 0 && stack[stack.length - 1]!.indent >= indent) {
+      stack.pop()!.node.end = index;
+    }
+
+    const body = label.replace(REF_RE, '');
+    const parts = body.match(NODE_RE);
+    const role = parts?.[1] ?? body;
+    const name = parts?.[2] ? unquote(parts[2]) : undefined;
+    const state = parts?.[3] ?? '';
+
+    // Text-like nodes are identified by their content; controls by role and name
+    const ident = name !== undefined
+      ? `${role} "${name}"`
+      : INTERACTIVE_ROLES.has(role) ? role : `${role}${state}`;
+    const parentKey = stack.length > 0 ? stack[stack.length - 1]!.node.key : null;
+    const base = `${parentKey ?? ''}>${ident}`;
+    const occurrence = occurrences.get(base) ?? 0;
+    occurrences.set(base, occurrence + 1);
+
+    const node: AriaNode = {
+      key: `${base}#${occurrence}`,
+      parentKey,
+      role,
+      name,
+      state,
+      label,
+      start: index,
+      end: lines.length,
+    };
+    nodes.push(node);
+    stack.push({ indent, node });
+  });
+
+  return nodes;
+}
+
+/**
+ * Nodes added, removed, or whose name/state changed between two snapshots.
+ * Only the topmost node of an added or removed subtree is reported.
+ */
+export function diffAriaSnapshots(previous: string, next: string): AriaDiff {
+  const before = parseAriaNodes(previous);
+  const after = parseAriaNodes(next);
+  const beforeByKey = new Map(before.map(n => [n.key, n]));
+  const afterKeys = new Set(after.map(n => n.key));
+
+  const changed: AriaDiff['changed'] = [];
+  let added: AriaNode[] = [];
+  for (const node of after) {
+    const old = beforeByKey.get(node.key);
+    if (!old) {
+      added.push(node);
+    } else if (old.state !== node.state) {
+      changed.push({ before: old, after: node });
+    }
+  }
+  let removed = before.filter(n => !afterKeys.has(n.key));
+
+  // A renamed node shows up as removed + added with the same parent and role
+  const renamed = new Set<AriaNode>();
+  for (const node of added) {
+    if (node.name === undefined) continue;
+    const old = removed.find(r =>
+      !renamed.has(r) && r.name !== undefined && r.role === node.role && r.parentKey === node.parentKey
+    );
+    if (old) {
+      renamed.add(old);
+      renamed.add(node);
+      changed.push({ before: old, after: node });
+    }
+  }
+  added = added.filter(n => !renamed.has(n));
+  removed = removed.filter(n => !renamed.has(n));
+
+  // Report subtree roots only
+  const addedKeys = new Set(added.map(n => n.key));
+  const removedKeys = new Set(removed.map(n => n.key));
+  return {
+    added: added.filter(n => !n.parentKey || !addedKeys.has(n.parentKey)),
+    removed: removed.filter(n => !n.parentKey || !removedKeys.has(n.parentKey)),
+    changed: changed.filter(c => !c.after.parentKey || !addedKeys.has(c.after.parentKey)),
+  };
+}
+
+export function isEmptyDiff(diff: AriaDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+function parentLabel(node: AriaNode, nodes: Map<string, AriaNode>): string {
+  const parent = node.parentKey ? nodes.get(node.parentKey) : undefined;
+  return parent ? `  (in ${parent.label.replace(/:$/, '')})` : '';
+}
+
+/**
+ * Render a diff for the prompt: `+` added subtrees (with their children),
+ * `-` removed nodes, `~` changed nodes as before → after
+ */
+export function renderAriaDiff(diff: AriaDiff, next: string, maxChars: number): string {
+  if (isEmptyDiff(diff)) {
+    return '(no changes - the last action had no visible effect)';
+  }
+
+  const lines = next.split('\n');
+  const nodes = new Map(parseAriaNodes(next).map(n => [n.key, n]));
+  const out: string[] = [];
+
+  for (const node of diff.added) {
+    out.push(`+ ${node.label}${parentLabel(node, nodes)}`);
+    const indent = lines[node.start]!.search(/\S/);
+    for (const child of lines.slice(node.start + 1, node.end)) {
+      out.push(child.slice(indent));
+    }
+  }
+  for (const node of diff.removed) {
+    out.push(`- ${node.label.replace(REF_RE, '')}`);
+  }
+  for (const { before, after } of diff.changed) {
+    out.push(`~ ${before.label.replace(REF_RE, '')} → ${after.label}`);
+  }
+
+  const text = out.join('\n');
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars - 20)}\n... [truncated]`;
+}
+
+/**
+ * Compact page outline: headings and interactive controls, flattened,
+ * with their values and refs
+ */
+export function summarizePage(snapshot: string, maxChars: number): string {
+  const lines = parseAriaNodes(snapshot)
+    // Frame labels stay so controls listed after one can be given its frame
+    .filter(n => n.role === 'heading' || n.role === 'frame' || INTERACTIVE_ROLES.has(n.role))
+    .map(n => `- ${n.label.replace(/:$/, '')}`);
+  const text = lines.join('\n');
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars - 20)}\n... [truncated]`;
+}
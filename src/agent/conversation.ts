@@ -0,0 +1,169 @@
+import type { ChatMessage } from '../llm/provider.js';
+import type { Action } from './actionSchema.js';
+import type { Observation } from './observation.js';
+import { describeLocator } from './locator.js';
+
+export interface ConversationConfig {
+  /** Token budget for replayed history (older turns are summarised) */
+  tokenWindow: number;
+}
+
+interface Turn {
+  tick: number;
+  url: string;
+  title: string;
+  lastError: string | null;
+  response: string;
+  action?: Action;
+  success?: boolean;
+  error?: string;
+}
+
+const DEFAULT_CONFIG: ConversationConfig = {
+  tokenWindow: 4000,
+};
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Chat history for a single step.
+ *
+ * Each tick is kept as a condensed user turn (URL, title, last error - never
+ * the full snapshot) plus the assistant's raw response. When the history
+ * exceeds the token window the oldest turns are folded into a summary that
+ * lists what was tried and which locators failed.
+ */
+export class ConversationMemory {
+  private config: ConversationConfig;
+  private turns: Turn[] = [];
+  private summary: string[] = [];
+  private failedLocators = new Set<string>();
+
+  constructor(config: Partial<ConversationConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Record the observation the model saw and its raw response
+   */
+  recordTurn(observation: Observation, response: string): void {
+    this.turns.push({
+      tick: observation.tickNumber,
+      url: observation.url,
+      title: observation.title,
+      lastError: observation.lastError,
+      response,
+    });
+    this.compact();
+  }
+
+  /**
+   * Attach the executed action and its outcome to the latest turn
+   */
+  recordOutcome(action: Action, success: boolean, error?: string): void {
+    const turn = this.turns[this.turns.length - 1];
+    if (!turn) return;
+    turn.action = action;
+    turn.success = success;
+    turn.error = error;
+
+    const locator = 'locator' in action ? action.locator : undefined;
+    if (!success && locator) {
+      this.failedLocators.add(`${action.type} ${describeLocator(locator)}`);
+    }
+  }
+
+  /**
+   * History messages to place between the system prompt and the current tick
+   * @param maxTokens Tighter budget for this call; older turns are summarised
+   *   in the result without being folded away for good
+   */
+  messages(maxTokens = Infinity): ChatMessage[] {
+    let summary = this.summary;
+    let turns = this.turns;
+    let messages = this.render(summary, turns);
+    while (turns.length > 0 && countTokens(messages) > maxTokens) {
+      summary = [...summary, `  ${summarizeTurn(turns[0]!)}`];
+      turns = turns.slice(1);
+      messages = this.render(summary, turns);
+    }
+    return messages;
+  }
+
+  private render(summary: string[], turns: Turn[]): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+
+    const summaryText = this.summaryText(summary);
+    if (summaryText) {
+      messages.push({ role: 'user', content: summaryText });
+      messages.push({ role: 'assistant', content: 'Understood. I will not repeat failed attempts.' });
+    }
+
+    for (const turn of turns) {
+      messages.push({ role: 'user', content: condenseTurn(turn) });
+      messages.push({ role: 'assistant', content: turn.response });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Estimated tokens of the replayed history
+   */
+  tokenCount(): number {
+    return countTokens(this.messages());
+  }
+
+  private summaryText(summary: string[]): string {
+    if (summary.length === 0 && this.failedLocators.size === 0) return '';
+
+    const parts: string[] = [];
+    if (summary.length > 0) {
+      parts.push(`EARLIER TICKS (summarised):\n${summary.join('\n')}`);
+    }
+    if (this.failedLocators.size > 0) {
+      const failed = [...this.failedLocators].map(f => `  - ${f}`).join('\n');
+      parts.push(`FAILED ATTEMPTS (do not repeat):\n${failed}`);
+    }
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Fold the oldest turns into the summary until history fits the window
+   */
+  private compact(): void {
+    while (this.turns.length > 1 && this.tokenCount() > this.config.tokenWindow) {
+      const oldest = this.turns.shift()!;
+      this.summary.push(`  ${summarizeTurn(oldest)}`);
+    }
+  }
+}
+
+function countTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+}
+
+function condenseTurn(turn: Turn): string {
+  const lines = [`[Tick ${turn.tick}] URL: ${turn.url} | Title: ${turn.title}`];
+  if (turn.lastError) {
+    lines.push(`Last error: ${turn.lastError}`);
+  }
+  return lines.join('\n');
+}
+
+function summarizeTurn(turn: Turn): string {
+  if (!turn.action) {
+    return `tick ${turn.tick}: no valid action`;
+  }
+  const locator = 'locator' in turn.action && turn.action.locator
+    ? ` ${describeLocator(turn.action.locator)}`
+    : '';
+  const status = turn.success ? '✓' : '✗';
+  const err = turn.error ? ` (${turn.error})` : '';
+  return `tick ${turn.tick}: [${status}] ${turn.action.type}${locator}${err}`;
+}
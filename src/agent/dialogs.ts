@@ -0,0 +1,128 @@
+/**
+ * Native dialogs: alert, confirm, prompt and beforeunload. Each is answered
+ * by the test case's dialog policy, or left open for the `dialog` action.
+ */
+
+import type { Dialog, Page } from '@playwright/test';
+import type { Logger } from '../utils/logger.js';
+
+/**
+ * How dialogs are answered: accepted or dismissed as they open, or left
+ * open until the agent answers them with the `dialog` action
+ */
+export type DialogPolicy = 'accept' | 'dismiss' | 'agent';
+
+/**
+ * A dialog raised during the run, as shown to the model
+ */
+export interface DialogInfo {
+  type: 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+  message: string;
+  /** `open` until the dialog is answered */
+  outcome: 'open' | 'accepted' | 'dismissed';
+}
+
+interface TrackedDialog {
+  info: DialogInfo;
+  dialog: Dialog;
+  page: Page;
+}
+
+/**
+ * Records the dialogs of the pages it is attached to and answers them by policy
+ */
+export class DialogTracker {
+  private policy: DialogPolicy;
+  private logger: Logger;
+  private dialogs: TrackedDialog[] = [];
+  /** Actions waiting to hear that a dialog was left open on their page */
+  private waiters = new Set<{ page: Page; wake: () => void }>();
+
+  constructor(policy: DialogPolicy, logger: Logger) {
+    this.policy = policy;
+    this.logger = logger;
+  }
+
+  /**
+   * Handle the dialogs of `page`. Listening keeps Playwright from dismissing them on its own.
+   */
+  attach(page: Page): void {
+    page.on('dialog', dialog => {
+      const tracked: TrackedDialog = {
+        info: { type: dialog.type() as DialogInfo['type'], message: dialog.message(), outcome: 'open' },
+        dialog,
+        page,
+      };
+      this.dialogs.push(tracked);
+      if (this.policy === 'agent') {
+        this.logger.info({ type: tracked.info.type }, 'Dialog opened - waiting for the agent');
+        for (const waiter of this.waiters) {
+          if (waiter.page === page) waiter.wake();
+        }
+        return;
+      }
+      this.close(tracked, this.policy === 'accept').catch(e => {
+        this.logger.warn({ type: tracked.info.type, error: e instanceof Error ? e.message : String(e) }, 'Dialog could not be answered');
+      });
+    });
+    // A closing tab takes its dialogs with it
+    page.on('close', () => {
+      for (const d of this.dialogs) {
+        if (d.page === page && d.info.outcome === 'open') d.info.outcome = 'dismissed';
+      }
+    });
+  }
+
+  /**
+   * The oldest dialog still open, on `page` when given
+   */
+  open(page?: Page): DialogInfo | undefined {
+    return this.dialogs.find(d => d.info.outcome === 'open' && (!page || d.page === page))?.info;
+  }
+
+  /**
+   * Answer the oldest open dialog on `page`; `text` is typed into a prompt before accepting
+   */
+  async answer(page: Page, accept: boolean, text?: string): Promise<DialogInfo> {
+    const tracked = this.dialogs.find(d => d.info.outcome === 'open' && d.page === page);
+    if (!tracked) {
+      throw new Error(this.policy === 'agent'
+        ? 'No dialog is open'
+        : `No dialog is open (dialogs are ${this.policy === 'accept' ? 'accepted' : 'dismissed'} automatically in this test case)`);
+    }
+    await this.close(tracked, accept, text);
+    return tracked.info;
+  }
+
+  /**
+   * Dialogs raised so far
+   */
+  list(): DialogInfo[] {
+    return this.dialogs.map(d => ({ ...d.info }));
+  }
+
+  /**
+   * `work`'s result, or null as soon as a dialog is left open for the agent
+   * on `page`. An action that raised the dialog only finishes once it is answered.
+   */
+  async race<T>(page: Page, work: Promise<T>): Promise<T | null> {
+    let waiter!: { page: Page; wake: () => void };
+    const opened = new Promise<null>(done => {
+      waiter = { page, wake: () => done(null) };
+      this.waiters.add(waiter);
+    });
+    // Settles after the dialog is answered, when nobody is listening any more
+    work.catch(() => {});
+    try {
+      return await Promise.race([work, opened]);
+    } finally {
+      this.waiters.delete(waiter);
+    }
+  }
+
+  private async close(tracked: TrackedDialog, accept: boolean, text?: string): Promise<void> {
+    tracked.info.outcome = accept ? 'accepted' : 'dismissed';
+    this.logger.info({ type: tracked.info.type, outcome: tracked.info.outcome }, 'Dialog answered');
+    await (accept ? tracked.dialog.accept(text) : tracked.dialog.dismiss());
+  }
+}
@@ -0,0 +1,157 @@
+import type { Page, Locator } from '@playwright/test';
+import type { Action, LocatorSpec } from './actionSchema.js';
+import { parseFrameHeader, resolveFrame } from './frames.js';
+
+/**
+ * An interactive node captured in a snapshot: the nth element with this
+ * role (and accessible name, when it has one)
+ */
+export interface ElementRef {
+  role: string;
+  name?: string;
+  nth: number;
+  /** Index of the frame whose section of the snapshot holds the node */
+  frame?: string;
+}
+
+export type ElementRefMap = Record<string, ElementRef>;
+
+/**
+ * Roles that get a ref; structural and text nodes are left unnumbered
+ */
+export const INTERACTIVE_ROLES = new Set([
+  'button',
+  'link',
+  'textbox',
+  'searchbox',
+  'checkbox',
+  'radio',
+  'combobox',
+  'listbox',
+  'option',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'tab',
+  'switch',
+  'slider',
+  'spinbutton',
+  'treeitem',
+]);
+
+// `- role "name" [attrs]: value` as printed by Playwright's ariaSnapshot()
+const NODE_RE = /^(\s*- )([a-z]+)(?: ("(?:[^"\\]|\\.)*"))?(.*)$/;
+
+function unquote(quoted: string): string {
+  try {
+    return JSON.parse(quoted) as string;
+  } catch {
+    return quoted.slice(1, -1);
+  }
+}
+
+/**
+ * Number every interactive node in an ARIA snapshot (`- button "Login" [ref=e3]`)
+ * and return the ref→element map.
+ *
+ * `nth` counts earlier nodes that the same `getByRole` query would match:
+ * same role and name for named nodes, every node of the role (named or not)
+ * for unnamed ones. Frame sections are queried on their own, so counting
+ * restarts in each.
+ */
+export function annotateSnapshot(snapshot: string): { snapshot: string; refs: ElementRefMap } {
+  const refs: ElementRefMap = {};
+  let seen = new Map<string, number>();
+  let frame: string | undefined;
+  let next = 1;
+
+  const lines = snapshot.split('\n').map(line => {
+    const header = parseFrameHeader(line);
+    if (header !== undefined) {
+      frame = header;
+      seen = new Map();
+      return line;
+    }
+    const match = line.match(NODE_RE);
+    if (!match) return line;
+    const [, prefix, role, quotedName, rest] = match;
+    if (!INTERACTIVE_ROLES.has(role!)) return line;
+
+    const name = quotedName ? unquote(quotedName) : undefined;
+    // getByRole(role) without a name matches named nodes too
+    const ofRole = seen.get(role!) ?? 0;
+    seen.set(role!, ofRole + 1);
+    let nth = ofRole;
+    if (name !== undefined) {
+      const key = `${role}\u0000${name}`;
+      nth = seen.get(key) ?? 0;
+      seen.set(key, nth + 1);
+    }
+
+    const ref = `e${next++}`;
+    refs[ref] = {
+      role: role!,
+      ...(name !== undefined && { name }),
+      nth,
+      ...(frame !== undefined && { frame }),
+    };
+    return `${prefix}${role}${quotedName ? ` ${quotedName}` : ''} [ref=${ref}]${rest}`;
+  });
+
+  return { snapshot: lines.join('\n'), refs };
+}
+
+/**
+ * Locator for the exact element a ref was captured from
+ */
+export function refLocator(page: Page, ref: string, refs: ElementRefMap): Locator {
+  const target = refs[ref];
+  if (!target) {
+    throw new Error(`Unknown element ref "${ref}": use a [ref=...] from the latest snapshot`);
+  }
+  const role = target.role as Parameters<Page['getByRole']>[0];
+  const scope = target.frame !== undefined ? resolveFrame(page, target.frame) : page;
+  const locator = target.name === undefined
+    ? scope.getByRole(role)
+    : scope.getByRole(role, { name: target.name, exact: true });
+  return locator.nth(target.nth);
+}
+
+/**
+ * Stable locator equivalent of a ref, for recording and replay. Refs are
+ * renumbered every snapshot, so nothing persisted may contain one.
+ * `nth` is kept when other nodes share the role and name, and always for
+ * unnamed nodes, whose locator matches every node of the role.
+ */
+export function refToSpec(ref: string, refs: ElementRefMap): LocatorSpec | null {
+  const target = refs[ref];
+  if (!target) return null;
+  const spec: LocatorSpec = {
+    kind: 'role',
+    role: target.role,
+    name: target.name ?? '',
+    exact: target.name !== undefined,
+    ...(target.frame !== undefined && { frame: target.frame }),
+  };
+  const twins = Object.values(refs).filter(
+    r => r.role === target.role && r.name === target.name && r.frame === target.frame
+  );
+  return target.name === undefined || twins.length > 1 ? { ...spec, nth: target.nth } : spec;
+}
+
+/**
+ * Replace ref locators in an action with their stable equivalents.
+ * Unknown refs are left in place so execution reports them.
+ */
+export function stabilizeRefs(action: Action, refs: ElementRefMap): Action {
+  if (action.type === 'drag') {
+    const stable = (spec: LocatorSpec): LocatorSpec =>
+      spec.kind === 'ref' ? refToSpec(spec.ref, refs) ?? spec : spec;
+    return { ...action, source: stable(action.source), target: stable(action.target) };
+  }
+  if (!('locator' in action) || !action.locator || action.locator.kind !== 'ref') {
+    return action;
+  }
+  const spec = refToSpec(action.locator.ref, refs);
+  return spec ? { ...action, locator: spec } : action;
+}
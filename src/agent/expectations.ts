@@ -1,11 +1,17 @@
 import type { Page } from '@playwright/test';
 import type { LocatorSpec } from './actionSchema.js';
 import { locatorFromSpec } from './locator.js';
+import type { DownloadedFile, DownloadTracker } from './files.js';
+import type { DialogTracker } from './dialogs.js';
+import { waitForTab, type TabRef } from './tabs.js';
 
 export interface Expectation {
-  type: 'url_contains' | 'visible_text' | 'locator_visible';
+  /** `download_name_matches` takes a regular expression; `download_contains` and `dialog_shown` a text */
+  type: 'url_contains' | 'visible_text' | 'locator_visible' | 'download_name_matches' | 'download_contains' | 'dialog_shown';
   value: string;
   locator?: LocatorSpec;
+  /** Tab to check: index, or text in its URL or title; the active tab if omitted */
+  tab?: TabRef;
 }
 
 export interface ExpectationResult {
@@ -20,9 +26,14 @@ export interface ExpectationResult {
 export async function evaluateExpectation(
   page: Page,
   expectation: Expectation,
-  timeout: number = 3000
+  timeout: number = 3000,
+  downloads?: DownloadTracker,
+  dialogs?: DialogTracker
 ): Promise<ExpectationResult> {
   try {
+    if (expectation.tab !== undefined) {
+      page = await waitForTab(page, expectation.tab, timeout);
+    }
     switch (expectation.type) {
       case 'url_contains': {
         const currentUrl = page.url();
@@ -76,6 +87,49 @@ export async function evaluateExpectation(
         }
       }
       
+      case 'download_name_matches': {
+        const pattern = new RegExp(expectation.value);
+        const { file, seen } = await findDownload(downloads, timeout, f => pattern.test(f.name));
+        return {
+          expectation,
+          passed: file !== undefined,
+          error: file ? undefined : `No download named like /${expectation.value}/ (downloaded: ${seen})`,
+        };
+      }
+      
+      case 'download_contains': {
+        const { file, seen } = await findDownload(
+          downloads,
+          timeout,
+          f => downloads!.content(f).includes(expectation.value)
+        );
+        return {
+          expectation,
+          passed: file !== undefined,
+          error: file ? undefined : `No download contains "${expectation.value}" (downloaded: ${seen})`,
+        };
+      }
+      
+      case 'dialog_shown': {
+        if (!dialogs) {
+          throw new Error('Dialogs are not captured in this run');
+        }
+        // The dialog may open a moment after the action that raised it
+        const deadline = Date.now() + timeout;
+        let shown = dialogs.list();
+        while (!shown.some(d => d.message.includes(expectation.value)) && Date.now() < deadline) {
+          await new Promise(done => setTimeout(done, 100));
+          shown = dialogs.list();
+        }
+        const passed = shown.some(d => d.message.includes(expectation.value));
+        const seen = shown.map(d => `${d.type} "${d.message}"`).join(', ') || 'none';
+        return {
+          expectation,
+          passed,
+          error: passed ? undefined : `No dialog said "${expectation.value}" (dialogs: ${seen})`,
+        };
+      }
+      
       default:
         return {
           expectation,
@@ -92,18 +146,43 @@ export async function evaluateExpectation(
   }
 }
 
+/**
+ * First download matching `predicate`, polling until `timeout` since a
+ * download may start or finish after the action that triggered it
+ */
+async function findDownload(
+  downloads: DownloadTracker | undefined,
+  timeout: number,
+  predicate: (file: DownloadedFile) => boolean
+): Promise<{ file?: DownloadedFile; seen: string }> {
+  if (!downloads) {
+    throw new Error('Downloads are not captured in this run');
+  }
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const files = await downloads.settled(Math.max(0, deadline - Date.now()));
+    const file = files.find(predicate);
+    if (file || Date.now() >= deadline) {
+      return { file, seen: files.map(f => f.name).join(', ') || 'nothing' };
+    }
+    await new Promise(done => setTimeout(done, 100));
+  }
+}
+
 /**
  * Evaluate all expectations for a step
  */
 export async function evaluateAllExpectations(
   page: Page,
   expectations: Expectation[],
-  timeout?: number
+  timeout?: number,
+  downloads?: DownloadTracker,
+  dialogs?: DialogTracker
 ): Promise<{ allPassed: boolean; results: ExpectationResult[] }> {
   const results: ExpectationResult[] = [];
   
   for (const expectation of expectations) {
-    const result = await evaluateExpectation(page, expectation, timeout);
+    const result = await evaluateExpectation(page, expectation, timeout, downloads, dialogs);
     results.push(result);
   }
   
@@ -0,0 +1,141 @@
+/**
+ * File transfer: fixture files for the `upload` action, and downloads
+ * captured for the `download_*` expectations.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+import type { Download, Page } from '@playwright/test';
+import type { Logger } from '../utils/logger.js';
+
+/**
+ * Files the `upload` action may attach: every file under the fixtures
+ * directory, as paths relative to it
+ */
+export function listFixtureFiles(fixturesDir: string | null): string[] {
+  if (!fixturesDir || !existsSync(fixturesDir)) return [];
+  return readdirSync(fixturesDir, { recursive: true, encoding: 'utf-8' })
+    .filter(file => statSync(join(fixturesDir, file)).isFile())
+    .map(file => file.split(sep).join('/'))
+    .sort();
+}
+
+/**
+ * Absolute paths for `upload` files. Paths are relative to the fixtures
+ * directory and may not leave it.
+ */
+export function resolveFixturePaths(fixturesDir: string | null, files: string[]): string[] {
+  if (!fixturesDir) {
+    throw new Error('Uploads need a fixtures directory next to the test case');
+  }
+  const root = resolve(fixturesDir);
+  return files.map(file => {
+    const path = resolve(root, file);
+    if (relative(root, path).startsWith('..') || path === root) {
+      throw new Error(`Upload path "${file}" is outside the fixtures directory`);
+    }
+    if (!existsSync(path) || !statSync(path).isFile()) {
+      throw new Error(`Upload file "${file}" not found in fixtures (available: ${listFixtureFiles(fixturesDir).join(', ') || 'none'})`);
+    }
+    return path;
+  });
+}
+
+/**
+ * A file the page downloaded during the run
+ */
+export interface DownloadedFile {
+  /** File name suggested by the page */
+  name: string;
+  /** Where the file was saved */
+  path: string;
+  size: number;
+  url: string;
+}
+
+/**
+ * Captures downloads from the pages it is attached to. Files are saved to
+ * `dir`, or left at Playwright's temporary path (removed with the browser
+ * context) when there is none.
+ */
+export class DownloadTracker {
+  private dir: string | null;
+  private logger: Logger;
+  private files: DownloadedFile[] = [];
+  private pending = new Set<Promise<void>>();
+
+  constructor(dir: string | null, logger: Logger) {
+    this.dir = dir;
+    this.logger = logger;
+  }
+
+  /**
+   * Capture the downloads of `page`
+   */
+  attach(page: Page): void {
+    page.on('download', download => {
+      const saving = this.save(download).finally(() => this.pending.delete(saving));
+      this.pending.add(saving);
+    });
+  }
+
+  /**
+   * Downloads saved so far, after waiting up to `timeoutMs` for those in progress
+   */
+  async settled(timeoutMs = 0): Promise<DownloadedFile[]> {
+    if (this.pending.size > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      try {
+        await Promise.race([
+          Promise.allSettled([...this.pending]),
+          new Promise(done => { timer = setTimeout(done, timeoutMs); }),
+        ]);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+    return [...this.files];
+  }
+
+  /**
+   * Downloads saved so far, without waiting
+   */
+  list(): DownloadedFile[] {
+    return [...this.files];
+  }
+
+  /**
+   * Content of a downloaded file as UTF-8 text
+   */
+  content(file: DownloadedFile): string {
+    return readFileSync(file.path, 'utf-8');
+  }
+
+  private async save(download: Download): Promise<void> {
+    const name = download.suggestedFilename();
+    try {
+      let path: string;
+      if (this.dir) {
+        mkdirSync(this.dir, { recursive: true });
+        path = join(this.dir, `${Date.now()}-${name}`);
+        await download.saveAs(path);
+      } else {
+        path = await download.path();
+      }
+      const file = { name, path, size: statSync(path).size, url: download.url() };
+      this.files.push(file);
+      this.logger.info({ name, size: file.size }, 'Download saved');
+    } catch (e) {
+      this.logger.warn({ name, error: e instanceof Error ? e.message : String(e) }, 'Download failed');
+    }
+  }
+}
+
+/**
+ * Human-readable file size
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
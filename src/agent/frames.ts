@@ -0,0 +1,139 @@
+/**
+ * Frames: snapshots of iframe content and frame-scoped locators.
+ *
+ * Playwright's ARIA snapshot shows an iframe as an empty `- iframe` node, so
+ * each child frame is snapshotted on its own and appended under a label the
+ * model can address: its index in `page.frames()`, its name, or part of its
+ * URL. Recorded actions name frames by name or URL only, see stableFrameRef().
+ * Open shadow roots need nothing extra: snapshots and role, label, text
+ * and css locators already see through them.
+ */
+
+import type { Frame, Page } from '@playwright/test';
+import type { Action, LocatorSpec } from './actionSchema.js';
+
+/**
+ * A child frame as labelled in observations
+ */
+export interface FrameInfo {
+  /** Position in `page.frames()`; 0 is the page itself */
+  index: number;
+  name: string;
+  url: string;
+}
+
+// `- frame [frame=2] name="payment" url="https://...":` as written by frameHeader()
+const FRAME_HEADER_RE = /^- frame \[frame=(\d+)\]/;
+
+/**
+ * The child frames of the page, nested ones included
+ */
+export function listFrames(page: Page): FrameInfo[] {
+  return page.frames()
+    .map((frame, index) => ({ frame, index }))
+    .filter(({ frame, index }) => index > 0 && !frame.isDetached())
+    .map(({ frame, index }) => ({ index, name: frame.name(), url: frame.url() }));
+}
+
+/**
+ * Snapshot line that opens a frame's section
+ */
+export function frameHeader(info: FrameInfo): string {
+  return `- frame [frame=${info.index}] name=${JSON.stringify(info.name)} url=${JSON.stringify(info.url)}:`;
+}
+
+/**
+ * Frame index a snapshot line opens a section for, if it is a frame header
+ */
+export function parseFrameHeader(line: string): string | undefined {
+  return line.match(FRAME_HEADER_RE)?.[1];
+}
+
+/**
+ * ARIA snapshot sections of the page's child frames, each under its header.
+ * Empty frames (trackers, spacers) and frames that fail to snapshot are left out.
+ */
+export async function frameSnapshots(page: Page, timeoutMs = 5000): Promise<string[]> {
+  const sections: string[] = [];
+  const frames = page.frames();
+  for (const info of listFrames(page)) {
+    const snapshot = await frames[info.index]!.locator('body')
+      .ariaSnapshot({ timeout: timeoutMs })
+      .catch(() => '');
+    if (!snapshot.trim()) continue;
+    const body = snapshot.split('\n').map(line => `  ${line}`).join('\n');
+    sections.push(`${frameHeader(info)}\n${body}`);
+  }
+  return sections;
+}
+
+/**
+ * The frame `ref` names: an index from `page.frames()`, a frame name, or
+ * text in the frame's URL
+ */
+export function resolveFrame(page: Page, ref: string): Frame {
+  const frames = page.frames();
+  const frame = /^\d+$/.test(ref)
+    ? frames[Number(ref)]
+    : frames.find(f => f.name() === ref) ?? frames.find(f => f.url().includes(ref));
+  if (!frame || frame.isDetached()) {
+    const available = listFrames(page).map(f => `[${f.index}] ${f.name || f.url}`).join(', ');
+    throw new Error(`Frame "${ref}" not found (frames: ${available || 'none'})`);
+  }
+  return frame;
+}
+
+/**
+ * A reference to the same frame that survives a reload: its name, else the
+ * last part of its URL path, else its whole URL. Indexes depend on the order
+ * frames loaded in, so recorded actions never keep one. Refs that already
+ * name a frame, and frames that are gone, are returned as they are.
+ */
+export function stableFrameRef(page: Page, ref: string): string {
+  if (!/^\d+$/.test(ref)) return ref;
+  let frame: Frame;
+  try {
+    frame = resolveFrame(page, ref);
+  } catch {
+    return ref;
+  }
+  const url = frame.url();
+  const candidates = [frame.name(), urlTail(url)].filter(c => c !== '');
+  const resolvesBack = (candidate: string) => {
+    try {
+      return resolveFrame(page, candidate) === frame;
+    } catch {
+      return false;
+    }
+  };
+  return candidates.find(resolvesBack) ?? url;
+}
+
+/**
+ * `action` with frame indexes replaced by stable frame references
+ */
+export function stabilizeFrames(page: Page, action: Action): Action {
+  const stable = (spec: LocatorSpec): LocatorSpec =>
+    spec.frame === undefined ? spec : { ...spec, frame: stableFrameRef(page, spec.frame) };
+  if (action.type === 'drag') {
+    return { ...action, source: stable(action.source), target: stable(action.target) };
+  }
+  if (action.type === 'fill_form') {
+    return action.frame === undefined ? action : { ...action, frame: stableFrameRef(page, action.frame) };
+  }
+  if ('locator' in action && action.locator) {
+    return { ...action, locator: stable(action.locator) };
+  }
+  return action;
+}
+
+// Last path segment of a URL (`checkout.html`), or its host for a bare origin
+function urlTail(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === 'about:') return '';
+    return parsed.pathname.split('/').filter(Boolean).pop() ?? parsed.host;
+  } catch {
+    return '';
+  }
+}
@@ -1,5 +1,13 @@
-export { ActionSchema, LocatorSpecSchema, LLMResponseSchema, parseAction } from './actionSchema.js';
-export type { Action, LocatorSpec, LLMResponse } from './actionSchema.js';
+export {
+  ActionSchema,
+  LocatorSpecSchema,
+  LLMResponseSchema,
+  PlanStepSchema,
+  PlanResponseSchema,
+  parseAction,
+  ActionParseError,
+} from './actionSchema.js';
+export type { Action, LocatorSpec, LLMResponse, PlanStep, PlanResponse } from './actionSchema.js';
 
 export { collectObservation, extractKeywords } from './observation.js';
 export type { Observation, ObservationConfig } from './observation.js';
@@ -11,5 +19,19 @@ export type { Expectation, ExpectationResult } from './expectations.js';
 
 export { locatorFromSpec, checkLocator, describeLocator } from './locator.js';
 
+export type { DownloadedFile } from './files.js';
+export type { DialogInfo, DialogPolicy } from './dialogs.js';
+export type { LocatorHealing } from './locatorHealing.js';
+export type { PromptBudgetReport } from './promptBudget.js';
+
 export { AgentRunner } from './runner.js';
-export type { TestStep, TestCase, RunnerConfig, StepResult, DebugInfo } from './runner.js';
+export type {
+  TestStep,
+  TestCase,
+  RunnerConfig,
+  StepContext,
+  StepResult,
+  StepUsage,
+  StepErrorCategory,
+  DebugInfo,
+} from './runner.js';
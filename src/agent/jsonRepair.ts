@@ -0,0 +1,159 @@
+/**
+ * Tolerant extraction of JSON objects from LLM replies.
+ *
+ * Models wrap JSON in prose or code fences, emit several objects, or write
+ * JavaScript-flavoured JSON (single quotes, trailing commas, bare keys).
+ */
+
+const FENCE_RE = /```[a-zA-Z]*[ \t]*\r?\n?([\s\S]*?)```/g;
+
+/**
+ * Top-level `{...}` spans in `text`, found by balanced-brace scanning that
+ * respects quoted strings. An object cut off by the end of the text (a
+ * truncated reply) is returned with its missing closers appended.
+ */
+export function scanObjects(text: string): string[] {
+  const objects: string[] = [];
+  let start = -1;
+  const closers: string[] = [];
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+
+    if (start === -1) {
+      if (ch === '{') {
+        start = i;
+        closers.push('}');
+      }
+      continue;
+    }
+
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '{') {
+      closers.push('}');
+    } else if (ch === '[') {
+      closers.push(']');
+    } else if (ch === '}' || ch === ']') {
+      closers.pop();
+      if (closers.length === 0) {
+        objects.push(text.slice(start, i + 1));
+        start = -1;
+      }
+    }
+  }
+
+  if (start !== -1) {
+    objects.push(text.slice(start) + (quote ?? '') + closers.reverse().join(''));
+  }
+  return objects;
+}
+
+/**
+ * Candidate JSON objects in reading order: fenced code blocks first, then
+ * objects anywhere in the text. Duplicates are dropped.
+ */
+export function extractJsonCandidates(text: string): string[] {
+  const candidates: string[] = [];
+  for (const match of text.matchAll(FENCE_RE)) {
+    candidates.push(...scanObjects(match[1]!));
+  }
+  candidates.push(...scanObjects(text));
+  return [...new Set(candidates.map(c => c.trim()))];
+}
+
+/**
+ * Rewrite a quoted string (single or double quotes) as a JSON string literal
+ */
+function toJsonString(literal: string): string {
+  const quote = literal[0]!;
+  const body = literal.endsWith(quote) && literal.length > 1 ? literal.slice(1, -1) : literal.slice(1);
+  let out = '';
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i]!;
+    if (ch === '\\' && i + 1 < body.length) {
+      const next = body[++i]!;
+      // \' is not a JSON escape
+      out += next === "'" ? "'" : `\\${next}`;
+    } else if (ch === '"') {
+      out += '\\"';
+    } else if (ch === '\n') {
+      out += '\\n';
+    } else if (ch === '\r') {
+      out += '\\r';
+    } else if (ch === '\t') {
+      out += '\\t';
+    } else {
+      out += ch;
+    }
+  }
+  return `"${out}"`;
+}
+
+/**
+ * Fix code (non-string) parts: comments, bare keys, trailing commas and
+ * Python literals
+ */
+function repairCode(code: string): string {
+  return code
+    .replace(/\/\/[^\n]*/g, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/([{,]\s*)([A-Za-z_$][\w$]*)(\s*:)/g, '$1"$2"$3')
+    .replace(/,(\s*[}\]])/g, '$1')
+    .replace(/\bTrue\b/g, 'true')
+    .replace(/\bFalse\b/g, 'false')
+    .replace(/\bNone\b/g, 'null');
+}
+
+/**
+ * Apply common repairs to almost-JSON: single-quoted strings, smart quotes,
+ * raw newlines in strings, comments, unquoted keys, trailing commas and
+ * Python `True`/`False`/`None`.
+ */
+export function repairJson(text: string): string {
+  const input = text.replace(/[“”]/g, '"').replace(/[‘’]/g, "'");
+  let out = '';
+  let code = '';
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]!;
+    if (ch !== '"' && ch !== "'") {
+      code += ch;
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < input.length && input[end] !== ch) {
+      if (input[end] === '\\') end++;
+      end++;
+    }
+    out += repairCode(code) + toJsonString(input.slice(i, end + 1));
+    code = '';
+    i = end;
+  }
+  return out + repairCode(code);
+}
+
+/**
+ * Parse a candidate as JSON, falling back to the repaired text.
+ * Returns undefined when neither parses.
+ */
+export function parseLenientJson(candidate: string): unknown {
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Try the repaired form
+  }
+  try {
+    return JSON.parse(repairJson(candidate));
+  } catch {
+    return undefined;
+  }
+}
@@ -1,38 +1,182 @@
-import type { Page, Locator } from '@playwright/test';
+import type { Frame, Page, Locator } from '@playwright/test';
 import type { LocatorSpec } from './actionSchema.js';
+import { refLocator, type ElementRefMap } from './elementRefs.js';
+import { resolveFrame } from './frames.js';
 
 /**
  * Convert a LocatorSpec to a Playwright Locator
+ * @param refs Element refs from the latest observation, for `ref` locators
  */
-export function locatorFromSpec(page: Page, spec: LocatorSpec): Locator {
+export function locatorFromSpec(page: Page, spec: LocatorSpec, refs: ElementRefMap = {}): Locator {
+  const scope = spec.frame !== undefined ? resolveFrame(page, spec.frame) : page;
+  return scopedLocator(page, scope, spec, refs);
+}
+
+/**
+ * A spec's locator inside `scope` (the page or one of its frames). Nested
+ * specs stay in the same scope: Playwright needs `has` and `within` locators
+ * from the frame of the outer one.
+ */
+function scopedLocator(page: Page, scope: Page | Frame, spec: LocatorSpec, refs: ElementRefMap): Locator {
+  let locator = targetLocator(page, scope, spec, refs);
+  if (spec.hasText !== undefined) {
+    locator = locator.filter({ hasText: spec.hasText });
+  }
+  if (spec.filter) {
+    // `has`/`hasNot` are matched inside each candidate, so they are built relative to the page
+    const { has, hasNot, hasText, hasNotText } = spec.filter;
+    locator = locator.filter({
+      has: has ? scopedLocator(page, scope, has, refs) : undefined,
+      hasNot: hasNot ? scopedLocator(page, scope, hasNot, refs) : undefined,
+      hasText,
+      hasNotText,
+    });
+  }
+  if (spec.nth !== undefined) {
+    locator = locator.nth(spec.nth);
+  } else if (spec.last) {
+    locator = locator.last();
+  }
+  return locator;
+}
+
+/**
+ * The element(s) a spec's kind selects, searched inside `within` when given.
+ * Refs carry their own frame; refs and the focused element ignore `within`.
+ */
+function targetLocator(page: Page, scope: Page | Frame, spec: LocatorSpec, refs: ElementRefMap): Locator {
+  const root: Page | Frame | Locator = spec.within ? scopedLocator(page, scope, spec.within, refs) : scope;
   switch (spec.kind) {
+    case 'ref':
+      return refLocator(page, spec.ref, refs);
+    
     case 'role':
-      return page.getByRole(spec.role as Parameters<Page['getByRole']>[0], {
+      return root.getByRole(spec.role as Parameters<Page['getByRole']>[0], {
         name: spec.name,
         exact: spec.exact,
       });
     
     case 'label':
-      return page.getByLabel(spec.text, { exact: spec.exact });
+      return root.getByLabel(spec.text, { exact: spec.exact });
     
     case 'testid':
-      return page.getByTestId(spec.id);
+      return root.getByTestId(spec.id);
     
     case 'text':
-      return page.getByText(spec.text, { exact: spec.exact });
+      return root.getByText(spec.text, { exact: spec.exact });
+    
+    case 'placeholder':
+      return root.getByPlaceholder(spec.text, { exact: spec.exact });
+    
+    case 'alt':
+      return root.getByAltText(spec.text, { exact: spec.exact });
+    
+    case 'title':
+      return root.getByTitle(spec.text, { exact: spec.exact });
     
     case 'css':
-      return page.locator(spec.selector);
+      return root.locator(spec.selector);
+    
+    case 'xpath':
+      return root.locator(`xpath=${spec.expression}`);
     
     case 'active':
       // Return focused element, or body as fallback
-      return page.locator(':focus').or(page.locator('body'));
+      return scope.locator(':focus').or(scope.locator('body'));
     
     default:
       throw new Error(`Unknown locator kind: ${(spec as LocatorSpec).kind}`);
   }
 }
 
+/**
+ * One of several elements an ambiguous locator matched
+ */
+export interface LocatorCandidate {
+  /** Value of `nth` that selects this element */
+  nth: number;
+  /** The element's own snapshot line, e.g. `button "Edit"` */
+  element: string;
+  /** Snapshot of its nearest container (row, list item, form, dialog...) */
+  context?: string;
+}
+
+/**
+ * A locator matched several elements; carries them so the model can refine it
+ */
+export class AmbiguousLocatorError extends Error {
+  constructor(
+    public readonly spec: LocatorSpec,
+    public readonly count: number,
+    public readonly candidates: LocatorCandidate[]
+  ) {
+    const lines = candidates.map(c =>
+      `  [nth=${c.nth}] ${c.element}${c.context ? `  in: ${c.context}` : ''}`
+    );
+    if (count > candidates.length) {
+      lines.push(`  ... and ${count - candidates.length} more`);
+    }
+    super(
+      `Ambiguous locator: ${describeLocator(spec)} matches ${count} elements. ` +
+      `Refine it with "hasText", "within" (a parent locator) or "nth" (0-based):\n${lines.join('\n')}`
+    );
+    this.name = 'AmbiguousLocatorError';
+  }
+}
+
+/** Containers that tell apart otherwise identical controls */
+const CONTEXT_ANCESTOR =
+  'xpath=ancestor::*[self::tr or self::li or self::article or self::section or self::form or self::dialog or self::fieldset ' +
+  'or @role="row" or @role="listitem" or @role="dialog" or @role="group" or @role="region"][1]';
+
+const CANDIDATE_LIMIT = 5;
+const CONTEXT_MAX_CHARS = 160;
+
+/**
+ * Describe the first few elements a locator matches, each with its container
+ */
+export async function describeCandidates(locator: Locator, count: number): Promise<LocatorCandidate[]> {
+  const candidates: LocatorCandidate[] = [];
+  for (let nth = 0; nth < Math.min(count, CANDIDATE_LIMIT); nth++) {
+    const element = locator.nth(nth);
+    const snapshot = await element.ariaSnapshot({ timeout: 2000 }).catch(() => '');
+    const candidate: LocatorCandidate = {
+      nth,
+      element: snapshot.split('\n')[0]?.replace(/^- /, '').replace(/:$/, '') || '(no accessible name)',
+    };
+
+    const container = element.locator(CONTEXT_ANCESTOR);
+    if (await container.count() > 0) {
+      const context = await container.first().ariaSnapshot({ timeout: 2000 }).catch(() => '');
+      if (context) {
+        // One line: `row "Invoice 42 Paid Edit" > cell "Invoice 42" ...`
+        const flat = context.split('\n').map(l => l.trim().replace(/^- /, '').replace(/:$/, '')).join(' > ');
+        candidate.context = flat.length > CONTEXT_MAX_CHARS ? `${flat.slice(0, CONTEXT_MAX_CHARS)}…` : flat;
+      }
+    }
+    candidates.push(candidate);
+  }
+  return candidates;
+}
+
+/**
+ * Resolve a spec to exactly one element.
+ * Throws when nothing matches, and `AmbiguousLocatorError` when several do
+ * and the spec does not pick one with `nth`.
+ */
+export async function resolveLocator(page: Page, spec: LocatorSpec, refs: ElementRefMap = {}): Promise<Locator> {
+  const locator = locatorFromSpec(page, spec, refs);
+  const { exists, count } = await checkLocator(locator);
+  if (!exists) {
+    throw new Error(`Locator not found: ${describeLocator(spec)}`);
+  }
+  // The focused element falls back to body, so it may match twice by design
+  if (count > 1 && spec.kind !== 'active') {
+    throw new AmbiguousLocatorError(spec, count, await describeCandidates(locator, count));
+  }
+  return locator.first();
+}
+
 /**
  * Check if a locator exists and get count for debugging
  */
@@ -51,7 +195,23 @@ export async function checkLocator(
  * Get a description of a locator spec for logging
  */
 export function describeLocator(spec: LocatorSpec): string {
+  const filters: string[] = [];
+  if (spec.hasText !== undefined) filters.push(` hasText="${spec.hasText}"`);
+  if (spec.filter?.hasText !== undefined) filters.push(` hasText="${spec.filter.hasText}"`);
+  if (spec.filter?.hasNotText !== undefined) filters.push(` hasNotText="${spec.filter.hasNotText}"`);
+  if (spec.filter?.has) filters.push(` has(${describeLocator(spec.filter.has)})`);
+  if (spec.filter?.hasNot) filters.push(` hasNot(${describeLocator(spec.filter.hasNot)})`);
+  if (spec.nth !== undefined) filters.push(` nth=${spec.nth}`);
+  else if (spec.last) filters.push(' last');
+  if (spec.within) filters.push(` within(${describeLocator(spec.within)})`);
+  if (spec.frame !== undefined) filters.push(` frame="${spec.frame}"`);
+  return describeTarget(spec) + filters.join('');
+}
+
+function describeTarget(spec: LocatorSpec): string {
   switch (spec.kind) {
+    case 'ref':
+      return `ref=${spec.ref}`;
     case 'role':
       return `role=${spec.role} name="${spec.name}"${spec.exact ? ' (exact)' : ''}`;
     case 'label':
@@ -60,8 +220,16 @@ export function describeLocator(spec: LocatorSpec): string {
       return `testid="${spec.id}"`;
     case 'text':
       return `text="${spec.text}"${spec.exact ? ' (exact)' : ''}`;
+    case 'placeholder':
+      return `placeholder="${spec.text}"${spec.exact ? ' (exact)' : ''}`;
+    case 'alt':
+      return `alt="${spec.text}"${spec.exact ? ' (exact)' : ''}`;
+    case 'title':
+      return `title="${spec.text}"${spec.exact ? ' (exact)' : ''}`;
     case 'css':
       return `css="${spec.selector}"`;
+    case 'xpath':
+      return `xpath="${spec.expression}"`;
     case 'active':
       return 'active element';
     default:
@@ -0,0 +1,184 @@
+/**
+ * Healing for locators that match nothing.
+ *
+ * The requested role/name (or label, or text) is fuzzy-matched against the
+ * nodes of the current ARIA snapshot. Only a single confident match is used,
+ * so a renamed "Log in" → "Login" button heals but a guess between two
+ * similar controls does not.
+ */
+
+import type { LocatorSpec } from './actionSchema.js';
+import { parseAriaNodes, type AriaNode } from './ariaDiff.js';
+
+/**
+ * A not-found locator the runner replaced with a match from the snapshot
+ */
+export interface LocatorHealing {
+  /** Tick the substitution happened in; absent during trajectory replay */
+  tick?: number;
+  actionType: string;
+  from: LocatorSpec;
+  to: LocatorSpec;
+  /** Similarity of the match, 0-1 */
+  score: number;
+}
+
+export interface HealingOptions {
+  /** Minimum similarity for a match to be used */
+  minScore: number;
+  /** How far the best match must lead the runner-up */
+  minMargin: number;
+}
+
+const DEFAULT_OPTIONS: HealingOptions = {
+  minScore: 0.75,
+  minMargin: 0.1,
+};
+
+/**
+ * Roles a model (or a redesign) easily swaps for one another
+ */
+export const ROLE_SYNONYMS: string[][] = [
+  ['button', 'link', 'menuitem', 'tab'],
+  ['textbox', 'searchbox', 'combobox'],
+  ['checkbox', 'switch', 'menuitemcheckbox'],
+  ['radio', 'menuitemradio'],
+  ['option', 'menuitem', 'listitem'],
+  ['heading', 'text', 'paragraph'],
+];
+
+/** Roles a `label` locator can point at */
+const LABELLED_ROLES = new Set([
+  'textbox', 'searchbox', 'combobox', 'listbox', 'checkbox', 'radio', 'switch', 'slider', 'spinbutton',
+]);
+
+/** A synonym role is a slightly weaker match than the requested one */
+const SYNONYM_FACTOR = 0.9;
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein distance
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Similarity of two names, 0-1: the better of character edit distance
+ * and word overlap, on normalised text. Spaces are ignored for the edit
+ * distance so "Log in" and "Login" match.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const compactLeft = left.replace(/ /g, '');
+  const compactRight = right.replace(/ /g, '');
+  const chars = 1 - editDistance(compactLeft, compactRight) / Math.max(compactLeft.length, compactRight.length);
+
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = [...leftWords].filter(w => rightWords.has(w)).length;
+  const words = shared / new Set([...leftWords, ...rightWords]).size;
+
+  return Math.max(chars, words);
+}
+
+function roleFactor(requested: string, actual: string): number {
+  if (requested === actual) return 1;
+  return ROLE_SYNONYMS.some(group => group.includes(requested) && group.includes(actual)) ? SYNONYM_FACTOR : 0;
+}
+
+/**
+ * Text of a `- text: ...` node
+ */
+function textContent(node: AriaNode): string | undefined {
+  return node.role === 'text' ? node.state.replace(/^:\s*/, '') : undefined;
+}
+
+function toSpec(node: AriaNode): LocatorSpec {
+  const text = textContent(node);
+  return text !== undefined
+    ? { kind: 'text', text, exact: true }
+    : { kind: 'role', role: node.role, name: node.name ?? '', exact: true };
+}
+
+/**
+ * Snapshot nodes that could be what `spec` meant, best first
+ */
+export function healingCandidates(spec: LocatorSpec, snapshot: string): Array<{ spec: LocatorSpec; score: number }> {
+  const scored = new Map<string, { spec: LocatorSpec; score: number }>();
+
+  for (const node of parseAriaNodes(snapshot)) {
+    let score = 0;
+    switch (spec.kind) {
+      case 'role':
+        if (node.name) score = textSimilarity(spec.name, node.name) * roleFactor(spec.role, node.role);
+        break;
+      case 'label':
+        if (node.name && LABELLED_ROLES.has(node.role)) score = textSimilarity(spec.text, node.name);
+        break;
+      case 'text': {
+        const text = textContent(node) ?? node.name;
+        if (text) score = textSimilarity(spec.text, text);
+        break;
+      }
+      default:
+        return [];
+    }
+    if (score <= 0) continue;
+
+    // Repeated nodes are one candidate; the runner checks the result is unique
+    const candidate = toSpec(node);
+    const key = JSON.stringify(candidate);
+    if ((scored.get(key)?.score ?? 0) < score) scored.set(key, { spec: candidate, score });
+  }
+
+  return [...scored.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * A replacement for a not-found locator, or null when no single match is
+ * confident enough. Scoping, filters and the frame of the original spec are kept.
+ */
+export function healLocator(
+  spec: LocatorSpec,
+  snapshot: string,
+  options: Partial<HealingOptions> = {}
+): { spec: LocatorSpec; score: number } | null {
+  const { minScore, minMargin } = { ...DEFAULT_OPTIONS, ...options };
+  const [best, runnerUp] = healingCandidates(spec, snapshot);
+  if (!best || best.score < minScore) return null;
+  if (runnerUp && best.score - runnerUp.score < minMargin) return null;
+
+  const { within, filter, hasText, nth, last, frame } = spec;
+  const filters = Object.fromEntries(
+    Object.entries({ within, filter, hasText, nth, last, frame }).filter(([, v]) => v !== undefined)
+  );
+  return { spec: { ...best.spec, ...filters } as LocatorSpec, score: Math.round(best.score * 100) / 100 };
+}
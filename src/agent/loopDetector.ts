@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+import type { Action } from './actionSchema.js';
+import type { Observation } from './observation.js';
+import { describeLocator } from './locator.js';
+
+export interface LoopDetectorConfig {
+  /** Same action in the same page state this many times counts as a loop */
+  repeatThreshold: number;
+  /** Ticks with an unchanged page state before reporting no progress */
+  noProgressThreshold: number;
+}
+
+export type LoopKind = 'repeat' | 'oscillation' | 'no_progress';
+
+export interface LoopDetection {
+  kind: LoopKind;
+  /** Human-readable description of the repeated behaviour */
+  description: string;
+  /** Actions the model should stop producing */
+  actions: Array<{ fingerprint: string; label: string }>;
+}
+
+interface Entry {
+  state: string;
+  action: string;
+  label: string;
+  success: boolean;
+}
+
+const DEFAULT_CONFIG: LoopDetectorConfig = {
+  repeatThreshold: 3,
+  noProgressThreshold: 6,
+};
+
+/**
+ * Fingerprint the page state: URL plus a hash of the ARIA snapshot
+ */
+export function stateFingerprint(observation: Pick<Observation, 'url' | 'ariaSnapshot'>): string {
+  const hash = createHash('sha1').update(observation.ariaSnapshot).digest('hex').slice(0, 12);
+  return `${observation.url}#${hash}`;
+}
+
+/**
+ * Fingerprint an action, ignoring free-form fields like `description`
+ */
+export function actionFingerprint(action: Action): string {
+  const { description: _description, ...rest } = action as Action & { description?: string };
+  return stableStringify(rest);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Short label for an action, used in hints and summaries
+ */
+export function describeAction(action: Action): string {
+  if (action.type === 'drag') {
+    return `drag ${describeLocator(action.source)} onto ${describeLocator(action.target)}`;
+  }
+  if (action.type === 'switch_tab' || action.type === 'close_tab') {
+    return action.tab === undefined ? action.type : `${action.type} ${action.tab}`;
+  }
+  if (action.type === 'dialog') {
+    return action.accept ? 'accept dialog' : 'dismiss dialog';
+  }
+  const locator = 'locator' in action && action.locator
+    ? ` ${describeLocator(action.locator)}`
+    : '';
+  return `${action.type}${locator}`;
+}
+
+/**
+ * Detects a stuck agent: the same action repeated in an unchanged page state,
+ * two actions alternating, or many ticks without any page change.
+ */
+export class LoopDetector {
+  private config: LoopDetectorConfig;
+  private entries: Entry[] = [];
+
+  constructor(config: Partial<LoopDetectorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Record an executed action with the page state it was taken in
+   */
+  record(observation: Observation, action: Action, success: boolean): void {
+    this.entries.push({
+      state: stateFingerprint(observation),
+      action: actionFingerprint(action),
+      label: describeAction(action),
+      success,
+    });
+  }
+
+  /**
+   * Check recent history for a loop; returns null when the agent is progressing
+   */
+  detect(): LoopDetection | null {
+    return this.detectRepeat() ?? this.detectOscillation() ?? this.detectNoProgress();
+  }
+
+  /**
+   * Forget history (after a recovery hint, so the next detection is fresh)
+   */
+  reset(): void {
+    this.entries = [];
+  }
+
+  private detectRepeat(): LoopDetection | null {
+    const last = this.entries[this.entries.length - 1];
+    if (!last) return null;
+
+    const same = this.entries.filter(e => e.state === last.state && e.action === last.action);
+    if (same.length < this.config.repeatThreshold) return null;
+
+    const outcome = same.every(e => !e.success) ? 'and it failed every time' : 'without changing the page';
+    return {
+      kind: 'repeat',
+      description: `"${last.label}" was tried ${same.length} times on the same page ${outcome}`,
+      actions: [{ fingerprint: last.action, label: last.label }],
+    };
+  }
+
+  private detectOscillation(): LoopDetection | null {
+    const recent = this.entries.slice(-4);
+    if (recent.length < 4) return null;
+
+    const [a, b, c, d] = recent as [Entry, Entry, Entry, Entry];
+    const alternating =
+      a.action !== b.action &&
+      a.action === c.action && b.action === d.action &&
+      a.state === c.state && b.state === d.state;
+    if (!alternating) return null;
+
+    return {
+      kind: 'oscillation',
+      description: `alternating between "${a.label}" and "${b.label}" without progress`,
+      actions: [
+        { fingerprint: a.action, label: a.label },
+        { fingerprint: b.action, label: b.label },
+      ],
+    };
+  }
+
+  private detectNoProgress(): LoopDetection | null {
+    const n = this.config.noProgressThreshold;
+    const recent = this.entries.slice(-n);
+    if (recent.length < n) return null;
+    if (!recent.every(e => e.state === recent[0]!.state)) return null;
+
+    const unique = new Map(recent.map(e => [e.action, e.label]));
+    const labels = [...new Set(unique.values())];
+    return {
+      kind: 'no_progress',
+      description: `${n} actions without any page change (${labels.slice(0, 4).join(', ')})`,
+      actions: [...unique].map(([fingerprint, label]) => ({ fingerprint, label })),
+    };
+  }
+}
@@ -1,5 +1,11 @@
 import type { Page } from '@playwright/test';
 import type { Action } from './actionSchema.js';
+import { annotateSnapshot, type ElementRefMap } from './elementRefs.js';
+import { diffAriaSnapshots, renderAriaDiff, summarizePage } from './ariaDiff.js';
+import { pruneAriaSnapshot } from './snapshotPruner.js';
+import { listTabs, type TabInfo } from './tabs.js';
+import { frameSnapshots } from './frames.js';
+import type { DialogInfo } from './dialogs.js';
 
 export interface Observation {
   url: string;
@@ -9,50 +15,165 @@ export interface Observation {
   lastError: string | null;
   previousActions: Array<{ action: Action; success: boolean; error?: string }>;
   tickNumber: number;
+  /** Ref→element map for the `[ref=eN]` markers in ariaSnapshot (element refs mode) */
+  elementRefs?: ElementRefMap;
+  /** Unfiltered snapshot, kept in diff mode to diff the next tick against */
+  fullAriaSnapshot?: string;
+  /** Changes since the previous tick; when set, the prompt shows this instead of ariaSnapshot */
+  ariaDiff?: string;
+  /** Headings and controls of the page, sent alongside ariaDiff */
+  pageSummary?: string;
+  /** Files the page has downloaded so far in the run */
+  downloads?: Array<{ name: string; size: number }>;
+  /** Open tabs, when there is more than one */
+  tabs?: TabInfo[];
+  /** Native dialogs raised so far in the run, the open one included */
+  dialogs?: DialogInfo[];
 }
 
 export interface ObservationConfig {
-  ariaSnapshotMaxChars: number;
+  /** Token budget for the ARIA snapshot; larger snapshots are pruned by relevance */
+  ariaSnapshotMaxTokens: number;
   shortTextMaxChars: number;
   goalKeywords: string[];
+  /** Number interactive nodes so the model can answer with `{"kind":"ref"}` locators */
+  elementRefs: boolean;
+  /** Send a diff against the previous tick (plus a page summary) instead of the full snapshot */
+  snapshotDiffs: boolean;
 }
 
 const DEFAULT_CONFIG: ObservationConfig = {
-  ariaSnapshotMaxChars: 8000,
+  ariaSnapshotMaxTokens: 2000,
   shortTextMaxChars: 2000,
   goalKeywords: [],
+  elementRefs: false,
+  snapshotDiffs: false,
 };
 
+/**
+ * Origin + path; navigation means this changed
+ */
+function pageLocation(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Snapshot line of the focused element, if anything besides the body has focus
+ */
+async function focusedNode(page: Page): Promise<string | undefined> {
+  try {
+    const focused = page.locator(':focus');
+    if (await focused.count() !== 1) return undefined;
+    return (await focused.ariaSnapshot({ timeout: 1000 })).split('\n')[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/** What visibleText() reads of an element or shadow root, typed here without the DOM lib */
+interface TextContainer {
+  tagName?: string;
+  innerText?: string;
+  shadowRoot?: TextContainer | null;
+  children: ArrayLike<TextContainer>;
+  querySelectorAll(selector: string): ArrayLike<TextContainer>;
+}
+
+/**
+ * Text of the page body, open shadow roots included (`innerText` stops at them,
+ * while snapshots and text locators see through)
+ */
+async function visibleText(page: Page): Promise<string> {
+  return page.locator('body').evaluate(element => {
+    const body = element as unknown as TextContainer;
+    const texts = [body.innerText ?? ''];
+    const visit = (root: TextContainer) => {
+      for (const host of Array.from(root.querySelectorAll('*'))) {
+        if (!host.shadowRoot) continue;
+        for (const child of Array.from(host.shadowRoot.children)) {
+          if (!['STYLE', 'SCRIPT', 'TEMPLATE'].includes(child.tagName ?? '')) texts.push(child.innerText ?? '');
+        }
+        visit(host.shadowRoot);
+      }
+    };
+    visit(body);
+    return texts.join('\n');
+  }, undefined, { timeout: 5000 });
+}
+
 /**
  * Extract text-based observations from the page
+ * @param previous Observation from the previous tick of the step (diff mode)
  */
 export async function collectObservation(
   page: Page,
   previousActions: Observation['previousActions'],
   tickNumber: number,
   lastError: string | null,
-  config: Partial<ObservationConfig> = {}
+  config: Partial<ObservationConfig> = {},
+  previous: Observation | null = null
 ): Promise<Observation> {
   const cfg = { ...DEFAULT_CONFIG, ...config };
   
   const url = page.url();
   const title = await page.title();
+  const tabs = await listTabs(page);
   
   // Get ARIA snapshot
   let ariaSnapshot: string;
+  let elementRefs: ElementRefMap | undefined;
   try {
     ariaSnapshot = await page.locator('body').ariaSnapshot();
+    // Iframes show up empty in the page's snapshot; their content follows under frame labels
+    const frames = await frameSnapshots(page);
+    if (frames.length > 0) ariaSnapshot = [ariaSnapshot, ...frames].join('\n');
+    if (cfg.elementRefs) {
+      // Number before filtering so refs stay valid whatever lines are dropped
+      ({ snapshot: ariaSnapshot, refs: elementRefs } = annotateSnapshot(ariaSnapshot));
+    }
   } catch (e) {
     ariaSnapshot = `[Error getting ARIA snapshot: ${e instanceof Error ? e.message : String(e)}]`;
   }
   
-  // Filter and truncate ARIA snapshot if needed
-  ariaSnapshot = filterAriaSnapshot(ariaSnapshot, cfg.goalKeywords, cfg.ariaSnapshotMaxChars);
+  const fullAriaSnapshot = ariaSnapshot;
+  
+  // Prune large snapshots down to the most relevant subtrees
+  ariaSnapshot = pruneAriaSnapshot(ariaSnapshot, {
+    maxTokens: cfg.ariaSnapshotMaxTokens,
+    keywords: cfg.goalKeywords,
+    focused: await focusedNode(page),
+  });
+  
+  // Diff against the previous tick; a full snapshot goes out on the first tick and after navigation
+  let ariaDiff: string | undefined;
+  let pageSummary: string | undefined;
+  if (
+    cfg.snapshotDiffs &&
+    previous?.fullAriaSnapshot !== undefined &&
+    !fullAriaSnapshot.startsWith('[Error') &&
+    pageLocation(previous.url) === pageLocation(url)
+  ) {
+    const diff = diffAriaSnapshots(previous.fullAriaSnapshot, fullAriaSnapshot);
+    // Same ~4 characters per token as estimateTokens
+    const maxChars = cfg.ariaSnapshotMaxTokens * 4;
+    const diffText = renderAriaDiff(diff, fullAriaSnapshot, maxChars);
+    const summary = summarizePage(fullAriaSnapshot, maxChars);
+    // Only worth it when smaller than what it replaces
+    if (diffText.length + summary.length < ariaSnapshot.length) {
+      ariaDiff = diffText;
+      pageSummary = summary;
+    }
+  }
   
   // Get short visible text excerpt
   let shortText: string;
   try {
-    const bodyText = await page.locator('body').innerText({ timeout: 5000 });
+    const bodyText = await visibleText(page);
     shortText = truncateText(bodyText, cfg.shortTextMaxChars);
   } catch (e) {
     shortText = `[Error getting text: ${e instanceof Error ? e.message : String(e)}]`;
@@ -66,76 +187,14 @@ export async function collectObservation(
     lastError,
     previousActions: previousActions.slice(-5), // Keep last 5 actions for context
     tickNumber,
+    elementRefs,
+    fullAriaSnapshot: cfg.snapshotDiffs ? fullAriaSnapshot : undefined,
+    ariaDiff,
+    pageSummary,
+    tabs: tabs.length > 1 ? tabs : undefined,
   };
 }
 
-/**
- * Filter ARIA snapshot to prioritize relevant content
- */
-function filterAriaSnapshot(
-  snapshot: string,
-  keywords: string[],
-  maxChars: number
-): string {
-  if (snapshot.length <= maxChars && keywords.length === 0) {
-    return snapshot;
-  }
-  
-  const lines = snapshot.split('\n');
-  
-  // If we have keywords, prioritize lines containing them
-  if (keywords.length > 0) {
-    const keywordLower = keywords.map(k => k.toLowerCase());
-    const relevantLines: string[] = [];
-    const otherLines: string[] = [];
-    
-    for (const line of lines) {
-      const lineLower = line.toLowerCase();
-      if (keywordLower.some(kw => lineLower.includes(kw))) {
-        relevantLines.push(line);
-      } else {
-        otherLines.push(line);
-      }
-    }
-    
-    // Combine: all relevant lines first, then fill with others
-    let result = relevantLines.join('\n');
-    let remaining = maxChars - result.length;
-    
-    if (remaining > 100 && otherLines.length > 0) {
-      const otherText = otherLines.join('\n');
-      result += '\n...\n' + otherText.slice(0, remaining - 10);
-    }
-    
-    return result.slice(0, maxChars);
-  }
-  
-  // No keywords: simple truncation with structure preservation
-  return truncateWithStructure(snapshot, maxChars);
-}
-
-/**
- * Truncate while trying to preserve hierarchical structure
- */
-function truncateWithStructure(text: string, maxChars: number): string {
-  if (text.length <= maxChars) return text;
-  
-  const lines = text.split('\n');
-  const result: string[] = [];
-  let charCount = 0;
-  
-  for (const line of lines) {
-    if (charCount + line.length + 1 > maxChars - 50) {
-      result.push('... [truncated]');
-      break;
-    }
-    result.push(line);
-    charCount += line.length + 1;
-  }
-  
-  return result.join('\n');
-}
-
 /**
  * Simple text truncation
  */
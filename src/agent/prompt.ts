@@ -1,51 +1,78 @@
-import type { Observation } from './observation.js';
+import { extractKeywords, type Observation } from './observation.js';
 import type { Expectation } from './expectations.js';
+import { PlanResponseSchema, llmResponseSchema } from './actionSchema.js';
+import { renderSchemaForPrompt } from './responseSchema.js';
+import { pruneAriaSnapshot } from './snapshotPruner.js';
+import { estimateTokens } from './conversation.js';
+import { formatSize } from './files.js';
+import { truncateToTokens, type PromptSection } from './promptBudget.js';
 
 export interface PromptContext {
   goal: string;
   expectations: Expectation[];
   observation: Observation;
+  /** Corrective hints from the runner (e.g. loop recovery) */
+  hints?: string[];
+  /** Ask for a plan (plan mode) rather than the next action */
+  plan?: boolean;
+  /** Fixture files the `upload` action can attach */
+  uploadFiles?: string[];
+}
+
+export interface SystemPromptOptions {
+  /** Observations carry `[ref=eN]` markers the model can target directly */
+  elementRefs?: boolean;
+  /** Ask for the whole step as an ordered plan instead of one action */
+  plan?: boolean;
+  /** Most actions one reply may batch; 1 (the default) leaves batching out */
+  maxBatchActions?: number;
 }
 
 /**
  * Build the system prompt for the LLM
  */
-export function buildSystemPrompt(): string {
-  return `You are a web automation agent. Your task is to achieve a given goal by choosing ONE action at a time based on the current page state.
+export function buildSystemPrompt(options: SystemPromptOptions = {}): string {
+  const locatorRule = options.elementRefs
+    ? `4. Interactive elements in the snapshot are marked [ref=eN]. Target them with {"kind": "ref", "ref": "eN"}, using a ref from the CURRENT snapshot only. Fall back to role > label > text > css for unmarked elements.`
+    : `4. Prefer locator strategies in this order: role > label > text > placeholder/alt/title > css/xpath (css and xpath are last resort).`;
+  const refExample = options.elementRefs
+    ? `\n- Element marked [ref=e12]: {"kind": "ref", "ref": "e12"}`
+    : '';
+  const batching = !options.plan && (options.maxBatchActions ?? 1) > 1;
+  const responseRule = options.plan
+    ? `6. Reply with a plan: every action needed to achieve the goal, in order. The runner executes them one by one and asks for a new plan if one fails or the page does not look as expected. Only plan actions whose elements you can predict; set "expectUrl" when an action needs a particular page.`
+    : `6. One action per response${batching ? ' (or a batch, see rule 11)' : ''}. The runner will loop until the goal is met.`;
+  const schema = options.plan
+    ? renderSchemaForPrompt(PlanResponseSchema)
+    : renderSchemaForPrompt(llmResponseSchema(batching ? options.maxBatchActions : 1));
+
+  const batchRule = batching
+    ? `\n11. You may reply with "actions" (up to ${options.maxBatchActions}) instead of "action" when no action depends on the page changing first, e.g. filling the fields of one form and then submitting it. Put anything that submits, navigates or opens new content last: the runner stops a batch at the first failure or navigation. "fill_form" fills several labelled fields in one action.`
+    : '';
+  const batchExample = batching
+    ? `\n\nBATCH EXAMPLE:\n{"actions": [{"type": "fill_form", "fields": [{"label": "Email", "value": "a@b.com"}, {"label": "Country", "value": "France"}]}, {"type": "click", "locator": {"kind": "role", "role": "button", "name": "Continue"}}]}`
+    : '';
+
+  const approach = options.plan
+    ? 'planning the actions it takes'
+    : batching ? 'choosing the next action, or a short batch of actions,' : 'choosing ONE action at a time';
+
+  return `You are a web automation agent. Your task is to achieve a given goal by ${approach} based on the current page state.
 
 RULES:
 1. Output ONLY valid JSON matching the schema below. No explanations outside JSON.
 2. Choose locators based ONLY on what you see in the ARIA snapshot.
 3. DO NOT invent or guess selectors - use what's visible in the snapshot.
-4. Prefer locator strategies in this order: role > label > text > css (css is last resort).
+${locatorRule}
 5. For role locators, use the exact role and name from the ARIA snapshot.
-6. One action per response. The runner will loop until the goal is met.
+${responseRule}
 7. If you believe the goal is impossible, use the "fail" action with a reason.
+8. Values written as {{secret:NAME}} are hidden secrets. Copy the placeholder verbatim into "text"; the runner substitutes the real value.
+9. A locator must match exactly one element. If LAST ERROR lists candidates for an ambiguous locator, narrow it with "within", "filter", "hasText", "nth" or "last". Content of iframes is listed under "- frame [frame=N]" labels: give locators of elements inside one "frame" with that N (or the frame's name). Shadow DOM content needs nothing special, except that xpath cannot reach into it.
+10. Menus that open on hover need a "hover" first; context menus open with "rightclick"; items that edit on double-click need "dblclick". Reorder sortable lists with "drag" (source onto target). If the target is not in the snapshot yet, "scroll" down the page or a list to load more, or give "scroll" just a locator to bring that element into view. Attach files with "upload", on the file input or the button that opens the file chooser, using paths from "Files for upload". When "Tabs" lists several tabs, act in another one with "switch_tab" and close those you no longer need with "close_tab". A dialog marked OPEN under "Dialogs" blocks the page: answer it with "dialog" (accept true for OK, false for Cancel; "text" for a prompt) before anything else.${batchRule}
 
-ACTION SCHEMA:
-{
-  "thinking": "brief reasoning (optional)",
-  "action": {
-    "type": "click" | "fill" | "press" | "select" | "check" | "wait" | "goto" | "assert" | "fail",
-    // For click/fill/select/check:
-    "locator": {
-      "kind": "role" | "label" | "testid" | "text" | "css" | "active",
-      // For role: "role": string, "name": string, "exact"?: boolean
-      // For label/text: "text": string, "exact"?: boolean
-      // For testid: "id": string
-      // For css: "selector": string
-      // For active: no additional fields
-    },
-    // For fill: "text": string (the text to type)
-    // For press: "key": string (e.g., "Enter", "Tab")
-    // For select: "value": string
-    // For check: "checked": boolean
-    // For wait: "ms": number (100-10000)
-    // For goto: "url": string
-    // For assert: "assertType": "visible_text" | "url_contains" | "locator_visible", "value": string
-    // For fail: "reason": string
-  }
-}
+${options.plan ? 'PLAN SCHEMA' : 'ACTION SCHEMA'} (optional fields marked with ?):
+${schema}
 
 LOCATOR EXAMPLES:
 - Button: {"kind": "role", "role": "button", "name": "Submit"}
@@ -53,63 +80,188 @@ LOCATOR EXAMPLES:
 - Text input: {"kind": "role", "role": "textbox", "name": "Username"}
 - By label: {"kind": "label", "text": "Email address"}
 - By visible text: {"kind": "text", "text": "Click here"}
-- Currently focused: {"kind": "active"}`;
+- Currently focused: {"kind": "active"}
+- Edit button in one table row: {"kind": "role", "role": "button", "name": "Edit", "within": {"kind": "role", "role": "row", "name": "Invoice 42"}}
+- Card that shows a "Sold out" badge: {"kind": "css", "selector": ".card", "filter": {"has": {"kind": "text", "text": "Sold out"}}}
+- Field inside an iframe labelled [frame=1]: {"kind": "role", "role": "textbox", "name": "Card number", "frame": "1"}${refExample}${batchExample}`;
 }
 
 /**
- * Build the user prompt with current context
+ * Shrink order when the prompt is over budget: lowest first. Sections not
+ * listed (goal, page state, hints, instruction) are never shrunk.
  */
-export function buildUserPrompt(context: PromptContext): string {
-  const { goal, expectations, observation } = context;
-  
-  const parts: string[] = [];
+export const SECTION_PRIORITY = {
+  textExcerpt: 1,
+  history: 2,
+  previousActions: 3,
+  snapshot: 4,
+  expectations: 5,
+};
+
+const FIXED = Infinity;
+
+/** Upload fixtures named in the prompt; the rest are summarised as a count */
+const MAX_LISTED_UPLOADS = 20;
+
+/** Latest dialogs shown in the prompt */
+const MAX_LISTED_DIALOGS = 5;
+
+/**
+ * The user prompt as named sections, each able to shrink to a token budget
+ */
+export function buildPromptSections(context: PromptContext): PromptSection[] {
+  const { goal, expectations, observation, hints = [], plan = false, uploadFiles = [] } = context;
+  const sections: PromptSection[] = [];
   
   // Goal
-  parts.push(`GOAL: ${goal}`);
+  sections.push({ name: 'goal', priority: FIXED, text: `GOAL: ${goal}` });
   
   // Expectations
   if (expectations.length > 0) {
+    const header = `\nEXPECTED OUTCOMES (runner will verify):\n`;
     const expList = expectations
-      .map(e => `  - ${e.type}: "${e.value}"`)
+      .map(e => `  - ${e.type}: "${e.value}"${e.tab !== undefined ? ` (tab ${JSON.stringify(e.tab)})` : ''}`)
       .join('\n');
-    parts.push(`\nEXPECTED OUTCOMES (runner will verify):\n${expList}`);
+    sections.push({
+      name: 'expectations',
+      priority: SECTION_PRIORITY.expectations,
+      text: header + expList,
+      shrink: max => header + truncateToTokens(expList, max - estimateTokens(header)),
+    });
   }
   
   // Current state
-  parts.push(`\nCURRENT PAGE STATE:`);
-  parts.push(`URL: ${observation.url}`);
-  parts.push(`Title: ${observation.title}`);
-  parts.push(`Tick: ${observation.tickNumber}`);
+  const state = [
+    `\nCURRENT PAGE STATE:`,
+    `URL: ${observation.url}`,
+    `Title: ${observation.title}`,
+    `Tick: ${observation.tickNumber}`,
+  ];
+  if (observation.tabs) {
+    state.push('Tabs:');
+    for (const tab of observation.tabs) {
+      state.push(`  [${tab.index}] ${tab.title || '(untitled)'} - ${tab.url}${tab.active ? ' (active)' : ''}`);
+    }
+  }
+  if (observation.downloads?.length) {
+    state.push(`Downloaded: ${observation.downloads.map(d => `${d.name} (${formatSize(d.size)})`).join(', ')}`);
+  }
+  if (observation.dialogs?.length) {
+    state.push('Dialogs:');
+    for (const dialog of observation.dialogs.slice(-MAX_LISTED_DIALOGS)) {
+      const outcome = dialog.outcome === 'open' ? 'OPEN, waiting for an answer' : dialog.outcome;
+      state.push(`  ${dialog.type} ${JSON.stringify(dialog.message)} - ${outcome}`);
+    }
+  }
+  if (uploadFiles.length > 0) {
+    const listed = uploadFiles.slice(0, MAX_LISTED_UPLOADS).join(', ');
+    const more = uploadFiles.length > MAX_LISTED_UPLOADS ? `, … ${uploadFiles.length - MAX_LISTED_UPLOADS} more` : '';
+    state.push(`Files for upload: ${listed}${more}`);
+  }
   
   // Last error
   if (observation.lastError) {
-    parts.push(`\nLAST ERROR: ${observation.lastError}`);
+    state.push(`\nLAST ERROR: ${observation.lastError}`);
+  }
+  
+  // Runner hints
+  if (hints.length > 0) {
+    state.push(`\nWARNING:\n${hints.map(h => `  - ${h}`).join('\n')}`);
   }
+  sections.push({ name: 'state', priority: FIXED, text: state.join('\n') });
   
   // Previous actions
   if (observation.previousActions.length > 0) {
-    const actionsStr = observation.previousActions
+    const lines = observation.previousActions
       .map((a, i) => {
         const status = a.success ? '✓' : '✗';
         const err = a.error ? ` (${a.error})` : '';
         return `  ${i + 1}. [${status}] ${a.action.type}${err}`;
-      })
-      .join('\n');
-    parts.push(`\nPREVIOUS ACTIONS:\n${actionsStr}`);
+      });
+    const render = (kept: string[]) => `\nPREVIOUS ACTIONS:\n${kept.join('\n')}`;
+    sections.push({
+      name: 'previousActions',
+      priority: SECTION_PRIORITY.previousActions,
+      text: render(lines),
+      // Oldest actions go first
+      shrink: max => {
+        let kept = lines;
+        while (kept.length > 1 && estimateTokens(render(kept)) > max) kept = kept.slice(1);
+        return render(kept);
+      },
+    });
   }
   
-  // ARIA snapshot
-  parts.push(`\nARIA SNAPSHOT:\n${observation.ariaSnapshot}`);
+  // ARIA snapshot, or what changed since the previous tick
+  if (observation.ariaDiff !== undefined) {
+    const summaryHeader = `\nPAGE SUMMARY (headings and controls):\n`;
+    const diffHeader = `\nCHANGES SINCE LAST TICK (+ added, - removed, ~ changed):\n`;
+    const summary = observation.pageSummary ?? '';
+    const diff = observation.ariaDiff;
+    sections.push({
+      name: 'snapshot',
+      priority: SECTION_PRIORITY.snapshot,
+      text: summaryHeader + summary + '\n' + diffHeader + diff,
+      // The diff is what the last action did; the summary gives way first
+      shrink: max => {
+        const rest = max - estimateTokens(summaryHeader + diffHeader);
+        const diffText = truncateToTokens(diff, Math.max(0, Math.ceil(rest / 2), rest - estimateTokens(summary)));
+        const summaryText = truncateToTokens(summary, Math.max(0, rest - estimateTokens(diffText)));
+        return summaryHeader + summaryText + '\n' + diffHeader + diffText;
+      },
+    });
+  } else {
+    const header = `\nARIA SNAPSHOT:\n`;
+    sections.push({
+      name: 'snapshot',
+      priority: SECTION_PRIORITY.snapshot,
+      text: header + observation.ariaSnapshot,
+      shrink: max => header + pruneAriaSnapshot(observation.ariaSnapshot, {
+        maxTokens: max - estimateTokens(header),
+        keywords: extractKeywords(goal),
+      }),
+    });
+  }
   
   // Short text (if different enough from ARIA)
   if (observation.shortText.length > 100) {
-    parts.push(`\nVISIBLE TEXT EXCERPT:\n${observation.shortText}`);
+    const header = `\nVISIBLE TEXT EXCERPT:\n`;
+    sections.push({
+      name: 'textExcerpt',
+      priority: SECTION_PRIORITY.textExcerpt,
+      text: header + observation.shortText,
+      // Dropped entirely rather than left as a stub
+      shrink: max => {
+        const rest = max - estimateTokens(header);
+        return rest < 50 ? '' : header + truncateToTokens(observation.shortText, rest);
+      },
+    });
   }
   
   // Instruction
-  parts.push(`\nChoose the next action to achieve the goal. Output JSON only.`);
+  sections.push({
+    name: 'instruction',
+    priority: FIXED,
+    text: plan
+      ? `\nPlan the actions that achieve the goal from this page. Output JSON only.`
+      : `\nChoose the next action to achieve the goal. Output JSON only.`,
+  });
   
-  return parts.join('\n');
+  return sections;
+}
+
+/**
+ * Join prompt sections into the user message
+ */
+export function renderPromptSections(sections: PromptSection[]): string {
+  return sections.filter(s => s.text).map(s => s.text).join('\n');
+}
+
+/**
+ * Build the user prompt with current context
+ */
+export function buildUserPrompt(context: PromptContext): string {
+  return renderPromptSections(buildPromptSections(context));
 }
 
 /**
@@ -119,3 +271,16 @@ export function maskSecrets(text: string): string {
   // Mask ${ENV.XXX} patterns with [MASKED]
   return text.replace(/\$\{ENV\.\w+\}/g, '[MASKED]');
 }
+
+/**
+ * Follow-up message when the last reply was not a valid action (or plan)
+ */
+export function buildCorrectionPrompt(issues: string[], plan = false): string {
+  const what = plan ? 'plan' : 'action';
+  return [
+    `Your last reply was not a valid ${what}:`,
+    ...issues.map(issue => `  - ${issue}`),
+    '',
+    `Reply again with ONE JSON object matching the ${what.toUpperCase()} SCHEMA. Output JSON only.`,
+  ].join('\n');
+}
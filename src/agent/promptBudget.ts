@@ -0,0 +1,108 @@
+/**
+ * Fit prompts into the model's context window.
+ *
+ * A prompt is a list of named sections with priorities. When the estimate
+ * exceeds the budget, sections are shrunk lowest priority first until it fits.
+ */
+
+import { estimateTokens } from './conversation.js';
+
+export interface ModelBudget {
+  /** Context window of the model in tokens */
+  contextTokens: number;
+  /** Tokens reserved for the model's reply */
+  outputTokens: number;
+}
+
+/**
+ * Known context windows, matched against the model name in order
+ */
+const MODEL_BUDGETS: Array<{ pattern: RegExp } & ModelBudget> = [
+  { pattern: /gpt-4\.1/i, contextTokens: 1_000_000, outputTokens: 4096 },
+  { pattern: /gpt-4o|gpt-4-turbo|\bo[134](-mini)?\b/i, contextTokens: 128_000, outputTokens: 4096 },
+  { pattern: /gpt-3\.5/i, contextTokens: 16_385, outputTokens: 1024 },
+  { pattern: /llama-?3\.[123]/i, contextTokens: 128_000, outputTokens: 1024 },
+  { pattern: /llama-?3/i, contextTokens: 8192, outputTokens: 1024 },
+  { pattern: /qwen-?2\.5|qwen-?3/i, contextTokens: 32_768, outputTokens: 1024 },
+  { pattern: /mistral|mixtral/i, contextTokens: 32_768, outputTokens: 1024 },
+  { pattern: /gemma-?2/i, contextTokens: 8192, outputTokens: 1024 },
+  { pattern: /phi-?3/i, contextTokens: 4096, outputTokens: 1024 },
+];
+
+export const DEFAULT_MODEL_BUDGET: ModelBudget = { contextTokens: 8192, outputTokens: 1024 };
+
+/**
+ * Context window and output reservation for a model; unknown models get
+ * the conservative default. Explicit overrides win over the table.
+ */
+export function modelBudget(model: string | null, overrides: Partial<ModelBudget> = {}): ModelBudget {
+  const known = model ? MODEL_BUDGETS.find(entry => entry.pattern.test(model)) : undefined;
+  return {
+    contextTokens: overrides.contextTokens ?? known?.contextTokens ?? DEFAULT_MODEL_BUDGET.contextTokens,
+    outputTokens: overrides.outputTokens ?? known?.outputTokens ?? DEFAULT_MODEL_BUDGET.outputTokens,
+  };
+}
+
+export interface PromptSection {
+  name: string;
+  text: string;
+  /** Sections shrink lowest priority first */
+  priority: number;
+  /** Return the section's text in at most `maxTokens`; sections without one are never shrunk */
+  shrink?: (maxTokens: number) => string;
+}
+
+export interface PromptBudgetReport {
+  /** Tokens available for the prompt (context minus output reservation) */
+  budgetTokens: number;
+  /** Estimated tokens of the final prompt */
+  totalTokens: number;
+  /** Estimated tokens per section after fitting */
+  sections: Record<string, number>;
+  /** Sections that had to be shrunk, in the order they were */
+  shrunk: string[];
+}
+
+/**
+ * Shrink sections, lowest priority first, until the total fits `budgetTokens`.
+ * Each shrink takes only the overflow out of its section. When fixed sections
+ * alone exceed the budget the result stays over it.
+ */
+export function fitSections(
+  sections: PromptSection[],
+  budgetTokens: number
+): { sections: PromptSection[]; report: PromptBudgetReport } {
+  const fitted = sections.map(section => ({ ...section }));
+  const total = () => fitted.reduce((sum, s) => sum + estimateTokens(s.text), 0);
+  const shrunk: string[] = [];
+
+  const shrinkable = fitted
+    .filter(s => s.shrink)
+    .sort((a, b) => a.priority - b.priority);
+  for (const section of shrinkable) {
+    const overflow = total() - budgetTokens;
+    if (overflow <= 0) break;
+    section.text = section.shrink!(Math.max(0, estimateTokens(section.text) - overflow));
+    shrunk.push(section.name);
+  }
+
+  return {
+    sections: fitted,
+    report: {
+      budgetTokens,
+      totalTokens: total(),
+      sections: Object.fromEntries(fitted.map(s => [s.name, estimateTokens(s.text)])),
+      shrunk,
+    },
+  };
+}
+
+/**
+ * Cut text to at most `maxTokens`, marking the cut
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const marker = '\n... [truncated]';
+  // Same ~4 characters per token as estimateTokens
+  return text.slice(0, Math.max(0, maxTokens * 4 - marker.length)) + marker;
+}
@@ -0,0 +1,265 @@
+import type { ZodTypeAny } from 'zod';
+import type { ResponseFormat } from '../llm/provider.js';
+import {
+  ActionSchema,
+  LLMResponseSchema,
+  LocatorSpecSchema,
+  PlanResponseSchema,
+  MAX_BATCH_ACTIONS,
+  llmResponseSchema,
+} from './actionSchema.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface JsonSchemaOptions {
+  /**
+   * Strict mode (OpenAI structured outputs): every property is required,
+   * optional ones become nullable, and objects allow no extra keys
+   */
+  strict?: boolean;
+  /** Sub-schemas emitted once under `$defs` and referenced by name */
+  definitions?: Record<string, ZodTypeAny>;
+}
+
+interface ConvertContext {
+  strict: boolean;
+  refs: Map<ZodTypeAny, string>;
+}
+
+/**
+ * Convert the Zod subset used by the action schemas into JSON Schema.
+ * Throws on Zod types it does not understand rather than emitting a loose schema.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny, options: JsonSchemaOptions = {}): JsonSchema {
+  const definitions = options.definitions ?? {};
+  const ctx: ConvertContext = {
+    strict: options.strict ?? false,
+    refs: new Map(Object.entries(definitions).map(([name, def]) => [def, name])),
+  };
+
+  const root = convert(schema, ctx, true);
+  if (ctx.refs.size === 0) return root;
+
+  const $defs: Record<string, JsonSchema> = {};
+  for (const [name, def] of Object.entries(definitions)) {
+    $defs[name] = convert(def, ctx, true);
+  }
+  return { ...root, $defs };
+}
+
+function convert(schema: ZodTypeAny, ctx: ConvertContext, inline = false): JsonSchema {
+  const ref = ctx.refs.get(schema);
+  if (ref && !inline) {
+    return { $ref: `#/$defs/${ref}` };
+  }
+  return withDescription(convertType(schema, ctx), schema.description, ctx.strict);
+}
+
+function convertType(schema: ZodTypeAny, ctx: ConvertContext): JsonSchema {
+  const def = schema._def;
+  switch (def.typeName) {
+    case 'ZodObject': {
+      const shape = (schema as unknown as { shape: Record<string, ZodTypeAny> }).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        if (value._def.typeName === 'ZodOptional') {
+          const inner = convert(value._def.innerType, ctx);
+          properties[key] = withDescription(ctx.strict ? nullable(inner) : inner, value.description, ctx.strict);
+          if (ctx.strict) required.push(key);
+        } else {
+          properties[key] = convert(value, ctx);
+          required.push(key);
+        }
+      }
+      return { type: 'object', properties, required, additionalProperties: false };
+    }
+    case 'ZodDiscriminatedUnion':
+    case 'ZodUnion':
+      return { anyOf: (def.options as ZodTypeAny[]).map(option => convert(option, ctx)) };
+    case 'ZodLiteral':
+      return { type: typeof def.value, enum: [def.value] };
+    case 'ZodEnum':
+      return { type: 'string', enum: [...def.values] };
+    case 'ZodString':
+      return { type: 'string' };
+    case 'ZodBoolean':
+      return { type: 'boolean' };
+    case 'ZodNumber': {
+      const out: JsonSchema = { type: 'number' };
+      for (const check of def.checks as Array<{ kind: string; value?: number; inclusive?: boolean }>) {
+        if (check.kind === 'int') out.type = 'integer';
+        if (check.kind === 'min') out[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max') out[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return out;
+    }
+    case 'ZodArray': {
+      const out: JsonSchema = { type: 'array', items: convert(def.type, ctx) };
+      if (def.minLength) out.minItems = def.minLength.value;
+      if (def.maxLength) out.maxItems = def.maxLength.value;
+      return out;
+    }
+    case 'ZodOptional':
+      return convert(def.innerType, ctx);
+    case 'ZodNullable':
+      return nullable(convert(def.innerType, ctx));
+    case 'ZodLazy': {
+      // Lazy schemas are recursive; they can only be emitted as a reference
+      const inner = def.getter() as ZodTypeAny;
+      if (!ctx.refs.has(inner)) {
+        throw new Error('Recursive Zod schema must be listed in definitions');
+      }
+      return convert(inner, ctx);
+    }
+    case 'ZodEffects':
+      // Refinements have no JSON Schema form; parsing still enforces them
+      return convert(def.schema, ctx);
+    default:
+      throw new Error(`Unsupported Zod type in JSON Schema conversion: ${def.typeName}`);
+  }
+}
+
+/**
+ * Attach a description; in strict mode `$ref` nodes stay bare since strict
+ * validators reject keywords next to `$ref`
+ */
+function withDescription(schema: JsonSchema, description: string | undefined, strict: boolean): JsonSchema {
+  if (!description || (strict && '$ref' in schema)) return schema;
+  return { ...schema, description };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  const { description, ...rest } = schema;
+  const wrapped: JsonSchema = { anyOf: [rest, { type: 'null' }] };
+  return description ? { ...wrapped, description } : wrapped;
+}
+
+const ACTION_DEFINITIONS = { Action: ActionSchema, Locator: LocatorSpecSchema };
+
+/**
+ * Response format sent to providers that support constrained decoding, for
+ * a runner batching at most `maxActions` actions per reply. Generated from
+ * `llmResponseSchema`, the same schema `parseAction` validates with.
+ */
+export function actionResponseFormat(maxActions = MAX_BATCH_ACTIONS): ResponseFormat {
+  return {
+    name: 'agent_action',
+    schema: zodToJsonSchema(llmResponseSchema(maxActions), { strict: true, definitions: ACTION_DEFINITIONS }),
+    strict: true,
+  };
+}
+
+/**
+ * Response format at the largest batch size
+ */
+export const ACTION_RESPONSE_FORMAT: ResponseFormat = actionResponseFormat();
+
+/**
+ * Response format for plan mode, generated from `PlanResponseSchema`
+ */
+export const PLAN_RESPONSE_FORMAT: ResponseFormat = {
+  name: 'agent_plan',
+  schema: zodToJsonSchema(PlanResponseSchema, { strict: true, definitions: ACTION_DEFINITIONS }),
+  strict: true,
+};
+
+/* -------------------------------------------------------------------------- */
+/*  Prompt rendering                                                           */
+/* -------------------------------------------------------------------------- */
+
+function renderType(schema: JsonSchema): string {
+  if (typeof schema.$ref === 'string') {
+    return schema.$ref.replace('#/$defs/', '');
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return (schema.anyOf as JsonSchema[]).map(renderType).join(' | ');
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map(v => JSON.stringify(v)).join(' | ');
+  }
+  if (schema.type === 'object') {
+    return renderObject(schema);
+  }
+  if (schema.type === 'array') {
+    const items = `${renderType(schema.items as JsonSchema)}[]`;
+    return schema.maxItems !== undefined ? `${items} (${schema.minItems ?? 0}-${schema.maxItems} items)` : items;
+  }
+  if (schema.type === 'number' || schema.type === 'integer') {
+    const min = schema.minimum;
+    const max = schema.maximum;
+    return min !== undefined && max !== undefined ? `number (${min}-${max})` : 'number';
+  }
+  return String(schema.type);
+}
+
+function renderObject(schema: JsonSchema): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required ?? []) as string[]);
+  const fields = Object.entries(properties).map(([key, value]) =>
+    `"${key}"${required.has(key) ? '' : '?'}: ${renderType(value)}`
+  );
+  return fields.length > 0 ? `{ ${fields.join(', ')} }` : '{}';
+}
+
+function fieldNotes(schema: JsonSchema): string[] {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  return Object.entries(properties)
+    .filter(([, value]) => typeof value.description === 'string')
+    .map(([key, value]) => `${key}: ${value.description}`);
+}
+
+/**
+ * Fields every variant of a union has in identical form
+ */
+function sharedFields(variants: JsonSchema[]): string[] {
+  if (variants.length < 2) return [];
+  const [first, ...rest] = variants.map(v => (v.properties ?? {}) as Record<string, JsonSchema>);
+  return Object.keys(first!).filter(key =>
+    key !== 'kind' && rest.every(props => JSON.stringify(props[key]) === JSON.stringify(first![key]))
+  );
+}
+
+function omitFields(schema: JsonSchema, fields: string[]): JsonSchema {
+  const properties = { ...(schema.properties ?? {}) } as Record<string, JsonSchema>;
+  for (const field of fields) delete properties[field];
+  return { ...schema, properties };
+}
+
+/**
+ * Render the response schema compactly for the system prompt: one line per
+ * union member, with field descriptions underneath. Fields shared by all
+ * members are listed once after them.
+ */
+export function renderSchemaForPrompt(
+  schema: ZodTypeAny = LLMResponseSchema,
+  definitions: Record<string, ZodTypeAny> = ACTION_DEFINITIONS
+): string {
+  const json = zodToJsonSchema(schema, { definitions });
+  const lines = [renderObject(json)];
+
+  for (const [name, def] of Object.entries((json.$defs ?? {}) as Record<string, JsonSchema>)) {
+    lines.push('', `${name} is one of:`);
+    const variants = Array.isArray(def.anyOf) ? (def.anyOf as JsonSchema[]) : [def];
+    const shared = sharedFields(variants);
+    for (const variant of variants) {
+      const own = omitFields(variant, shared);
+      const note = typeof variant.description === 'string' ? `  // ${variant.description}` : '';
+      lines.push(`  ${renderObject(own)}${note}`);
+      for (const field of fieldNotes(own)) {
+        lines.push(`      ${field}`);
+      }
+    }
+    if (shared.length > 0) {
+      const common: JsonSchema = {
+        properties: Object.fromEntries(shared.map(key => [key, (variants[0]!.properties as Record<string, JsonSchema>)[key]!])),
+        required: ((variants[0]!.required ?? []) as string[]).filter(key => shared.includes(key)),
+      };
+      lines.push(`  Every ${name} also accepts: ${renderObject(common)}`);
+      for (const field of fieldNotes(common)) {
+        lines.push(`      ${field}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
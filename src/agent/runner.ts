@@ -1,14 +1,34 @@
 import type { Page } from '@playwright/test';
 import type { Logger } from '../utils/logger.js';
-import type { LLMProvider } from '../llm/provider.js';
-import type { Action } from './actionSchema.js';
+import type { LLMProvider, ChatMessage, ResponseFormat } from '../llm/provider.js';
+import { LLMAttemptsExhaustedError } from '../llm/errors.js';
+import type { Action, LocatorSpec } from './actionSchema.js';
 import type { Expectation, ExpectationResult } from './expectations.js';
 import type { Observation } from './observation.js';
-import { parseAction } from './actionSchema.js';
+import { parseAction, parsePlan, ActionParseError, DEFAULT_SCROLL_AMOUNT, type PlanStep } from './actionSchema.js';
 import { collectObservation, extractKeywords } from './observation.js';
-import { buildSystemPrompt, buildUserPrompt, maskSecrets } from './prompt.js';
-import { evaluateAllExpectations } from './expectations.js';
-import { locatorFromSpec, checkLocator, describeLocator } from './locator.js';
+import {
+  buildSystemPrompt,
+  buildPromptSections,
+  renderPromptSections,
+  buildCorrectionPrompt,
+  maskSecrets,
+  SECTION_PRIORITY,
+  type PromptContext,
+} from './prompt.js';
+import { fitSections, modelBudget, type PromptBudgetReport, type PromptSection } from './promptBudget.js';
+import { evaluateAllExpectations, evaluateExpectation } from './expectations.js';
+import { locatorFromSpec, checkLocator, describeLocator, resolveLocator, AmbiguousLocatorError } from './locator.js';
+import { healLocator, type LocatorHealing } from './locatorHealing.js';
+import { SecretVariables } from './secrets.js';
+import { ConversationMemory } from './conversation.js';
+import { LoopDetector, actionFingerprint } from './loopDetector.js';
+import { TrajectoryCache, structureFingerprint, type TrajectoryKey } from './trajectoryCache.js';
+import { actionResponseFormat, PLAN_RESPONSE_FORMAT } from './responseSchema.js';
+import { stabilizeRefs, type ElementRefMap } from './elementRefs.js';
+import { resolveFrame, stabilizeFrames } from './frames.js';
+import { DownloadTracker, listFixtureFiles, resolveFixturePaths, type DownloadedFile } from './files.js';
+import { DialogTracker, type DialogInfo, type DialogPolicy } from './dialogs.js';
 
 export interface TestStep {
   goal: string;
@@ -20,209 +40,503 @@ export interface TestCase {
   name: string;
   baseUrl: string;
   variables?: Record<string, string>;
+  /** Variable names whose values must never reach the LLM or logs */
+  secrets?: string[];
+  /** Folder `upload` files are taken from, resolved against the test case file */
+  fixturesDir?: string;
+  /** How native dialogs are answered */
+  dialogs?: DialogPolicy;
   steps: TestStep[];
 }
 
+/**
+ * Where a step sits in its test case (enables the trajectory cache)
+ */
+export interface StepContext {
+  testCaseId?: string;
+  stepIndex?: number;
+}
+
 export interface RunnerConfig {
   maxTicksPerStep: number;
-  ariaSnapshotMaxChars: number;
+  ariaSnapshotMaxTokens: number;
   shortTextMaxChars: number;
   postActionDelayMs: number;
   expectationTimeoutMs: number;
+  /** Replay earlier ticks of the step as chat history */
+  conversationMode: boolean;
+  /** Token budget for replayed history before older turns are summarised */
+  conversationTokenWindow: number;
+  /** Detect repeated/oscillating actions and unchanged pages */
+  loopDetection: boolean;
+  /** Recovery attempts (hint, then blocking the looping actions) before ending the step */
+  maxLoopRecoveries: number;
+  /** Directory for replayable step trajectories; null disables the cache */
+  trajectoryCacheDir: string | null;
+  /** Times an invalid reply is sent back with its validation issues before the tick is spent */
+  maxParseCorrections: number;
+  /** Number interactive nodes in observations and let the model answer with ref locators */
+  elementRefs: boolean;
+  /** Send ARIA diffs between ticks instead of the full snapshot (full again after navigation) */
+  snapshotDiffs: boolean;
+  /** Model name, used to look up its context window */
+  model: string | null;
+  /** Context window override in tokens; null uses the model table */
+  contextTokens: number | null;
+  /** Tokens reserved for the reply; null uses the model table */
+  outputReserveTokens: number | null;
+  /** Retry not-found locators with a single confident fuzzy match from the snapshot */
+  locatorHealing: boolean;
+  /** Ask for the whole step as a plan up front and only go back to the LLM when it breaks */
+  planMode: boolean;
+  /** New plans requested after a failure or divergence before continuing tick by tick */
+  maxReplans: number;
+  /** Most actions one reply may batch (`fill_form` counts as one); 1 disables batching */
+  maxBatchActions: number;
+  /** Directory `upload` files are taken from, usually the test case's fixtures folder */
+  fixturesDir: string | null;
+  /** Directory downloads are saved to; null leaves them in Playwright's temporary folder */
+  downloadsDir: string | null;
+  /** Switch to tabs and popups as the page opens them */
+  followPopups: boolean;
+  /** Accept or dismiss native dialogs as they open, or leave them to the `dialog` action */
+  dialogPolicy: DialogPolicy;
 }
 
 export interface StepResult {
   step: TestStep;
   success: boolean;
   ticksUsed: number;
-  actions: Array<{ action: Action; success: boolean; error?: string }>;
+  /** `replayed` marks actions taken from the trajectory cache, a partial replay included */
+  actions: Array<{ action: Action; success: boolean; error?: string; replayed?: boolean }>;
   expectations: ExpectationResult[];
   error?: string;
+  errorCategory?: StepErrorCategory;
+  usage: StepUsage;
+  /** True when the step passed by replaying a cached trajectory without the LLM */
+  replayed?: boolean;
+  /** Not-found locators the runner replaced with a fuzzy match from the snapshot */
+  healed?: LocatorHealing[];
+  /** Plans requested in plan mode, replans included */
+  plans?: number;
+  /** Files downloaded while the step ran */
+  downloads?: DownloadedFile[];
+  /** Tabs or popups the runner switched to as they opened */
+  followedTabs?: number;
+  /** Native dialogs raised while the step ran */
+  dialogs?: DialogInfo[];
   debugInfo?: DebugInfo;
 }
 
+/**
+ * Why a step failed
+ */
+export type StepErrorCategory = 'agent_gave_up' | 'max_ticks' | 'loop_detected';
+
+/**
+ * LLM usage accumulated over a step
+ */
+export interface StepUsage {
+  llmCalls: number;
+  /** Requests sent to LLM APIs, retries and fallbacks included */
+  llmAttempts: number;
+  /** Calls answered by a fallback provider */
+  llmFallbacks: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+}
+
 export interface DebugInfo {
   lastObservation: Observation;
   lastLLMResponse: string;
   lastError: string | null;
+  /** Prompt token estimate of each tick after fitting it to the context window */
+  promptBudgets: Array<PromptBudgetReport & { tick: number }>;
+}
+
+/** `fill_form` values that leave a checkbox unchecked */
+const FALSY_VALUES = new Set(['', 'false', 'no', 'off', '0', 'unchecked']);
+
+/**
+ * State plan mode hands over to the per-tick loop
+ */
+interface PlanOutcome {
+  actions: StepResult['actions'];
+  healings: LocatorHealing[];
+  promptBudgets: DebugInfo['promptBudgets'];
+  ticksUsed: number;
+  plans: number;
+  lastObservation: Observation | null;
+  lastLLMResponse: string;
+  lastError: string | null;
+}
+
+/**
+ * What replaying a cached trajectory did; `result` is set when it settled the step
+ */
+interface ReplayOutcome {
+  result: StepResult | null;
+  actions: StepResult['actions'];
+  healings: LocatorHealing[];
+  /** Why replay stopped early, for the LLM's first tick */
+  error: string | null;
 }
 
 const DEFAULT_CONFIG: RunnerConfig = {
   maxTicksPerStep: 25,
-  ariaSnapshotMaxChars: 8000,
+  ariaSnapshotMaxTokens: 2000,
   shortTextMaxChars: 2000,
   postActionDelayMs: 200,
   expectationTimeoutMs: 3000,
+  conversationMode: false,
+  conversationTokenWindow: 4000,
+  loopDetection: true,
+  maxLoopRecoveries: 2,
+  trajectoryCacheDir: null,
+  maxParseCorrections: 2,
+  elementRefs: false,
+  snapshotDiffs: false,
+  model: null,
+  contextTokens: null,
+  outputReserveTokens: null,
+  locatorHealing: true,
+  planMode: false,
+  maxReplans: 3,
+  maxBatchActions: 5,
+  fixturesDir: null,
+  downloadsDir: null,
+  followPopups: true,
+  dialogPolicy: 'agent',
 };
 
 /**
  * Main agent runner for executing test steps
  */
 export class AgentRunner {
+  /** The active tab: observed and acted on */
   private page: Page;
   private llm: LLMProvider;
   private logger: Logger;
   private config: RunnerConfig;
-  private variables: Record<string, string>;
+  private secrets: SecretVariables;
+  private trajectories: TrajectoryCache | null;
+  /** Refs from the latest observation; `ref` locators resolve against these */
+  private elementRefs: ElementRefMap = {};
+  /** Prompt tokens available per call: context window minus the reply reservation */
+  private promptBudgetTokens: number;
+  /** Constrained decoding for action replies, with batches capped at `maxBatchActions` */
+  private actionResponseFormat: ResponseFormat;
+  private downloads: DownloadTracker;
+  private dialogs: DialogTracker;
+  /** Fixture files offered to the `upload` action */
+  private uploadFiles: string[];
+  /** Tabs switched to automatically so far (`followPopups`) */
+  private followedTabs = 0;
 
   constructor(
     page: Page,
     llm: LLMProvider,
     logger: Logger,
     config: Partial<RunnerConfig> = {},
-    variables: Record<string, string> = {}
+    variables: Record<string, string> = {},
+    secretNames: string[] = []
   ) {
     this.page = page;
     this.llm = llm;
     this.logger = logger;
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.variables = variables;
+    this.secrets = new SecretVariables(variables, secretNames, logger);
+    this.trajectories = this.config.trajectoryCacheDir
+      ? new TrajectoryCache(this.config.trajectoryCacheDir)
+      : null;
+    const budget = modelBudget(this.config.model, {
+      contextTokens: this.config.contextTokens ?? undefined,
+      outputTokens: this.config.outputReserveTokens ?? undefined,
+    });
+    this.promptBudgetTokens = budget.contextTokens - budget.outputTokens;
+    this.actionResponseFormat = actionResponseFormat(this.config.maxBatchActions);
+    this.downloads = new DownloadTracker(this.config.downloadsDir, logger);
+    this.dialogs = new DialogTracker(this.config.dialogPolicy, logger);
+    for (const open of page.context().pages()) this.trackPage(open);
+    page.context().on('page', opened => this.pageOpened(opened));
+    this.uploadFiles = listFixtureFiles(this.config.fixturesDir);
   }
 
   /**
    * Execute a single test step
    */
-  async executeStep(step: TestStep): Promise<StepResult> {
-    const goal = this.interpolateVariables(step.goal);
+  async executeStep(step: TestStep, context: StepContext = {}): Promise<StepResult> {
+    const before = this.downloads.list().length;
+    const followedBefore = this.followedTabs;
+    const dialogsBefore = this.dialogs.list().length;
+    const result = await this.runStep(step, context);
+    const downloads = (await this.downloads.settled(this.config.expectationTimeoutMs)).slice(before);
+    const followedTabs = this.followedTabs - followedBefore;
+    const dialogs = this.secrets.scrubDeep(this.dialogs.list().slice(dialogsBefore));
+    return {
+      ...result,
+      ...(downloads.length > 0 && { downloads }),
+      ...(followedTabs > 0 && { followedTabs }),
+      ...(dialogs.length > 0 && { dialogs }),
+    };
+  }
+
+  private trackPage(page: Page): void {
+    this.downloads.attach(page);
+    this.dialogs.attach(page);
+    page.on('close', () => this.pageClosed(page));
+  }
+
+  private pageOpened(opened: Page): void {
+    this.trackPage(opened);
+    const url = this.secrets.scrub(opened.url());
+    if (!this.config.followPopups) {
+      this.logger.info({ url }, 'Tab opened');
+      return;
+    }
+    this.page = opened;
+    this.followedTabs++;
+    this.logger.info({ url }, 'Tab opened - switched to it');
+  }
+
+  /**
+   * When the active tab closes (an OAuth popup finishing, or close_tab), carry on in the newest remaining one
+   */
+  private pageClosed(closed: Page): void {
+    if (closed !== this.page) return;
+    const next = closed.context().pages().at(-1);
+    if (!next) return;
+    this.page = next;
+    this.logger.info({ url: this.secrets.scrub(next.url()) }, 'Active tab closed - switched to the newest remaining tab');
+  }
+
+  private async runStep(step: TestStep, context: StepContext): Promise<StepResult> {
+    // Secrets stay as {{secret:NAME}} placeholders in everything the LLM sees
+    const goal = this.secrets.forPrompt(step.goal);
     const expectations = step.expect || [];
     const keywords = extractKeywords(goal);
     
     this.logger.info({ goal: maskSecrets(goal), expectations }, 'Starting step');
     
-    const actions: StepResult['actions'] = [];
-    let lastError: string | null = null;
+    const usage: StepUsage = {
+      llmCalls: 0,
+      llmAttempts: 0,
+      llmFallbacks: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      latencyMs: 0,
+    };
+    
+    // Replay a cached trajectory first; fall back to the LLM if it no longer works
+    const trajectoryKey = await this.trajectoryKey(step, context);
+    const replay = trajectoryKey ? await this.replayTrajectory(step, trajectoryKey, usage) : null;
+    if (replay?.result) return replay.result;
+    
+    // The LLM carries on from wherever a partial replay left the page, with its actions on record
+    const actions: StepResult['actions'] = [...(replay?.actions ?? [])];
+    let lastError: string | null = replay?.error ?? null;
     let lastObservation: Observation | null = null;
     let lastLLMResponse = '';
+    const memory = this.config.conversationMode
+      ? new ConversationMemory({ tokenWindow: this.config.conversationTokenWindow })
+      : null;
+    const loops = this.config.loopDetection ? new LoopDetector() : null;
+    const blockedActions = new Map<string, string>();
+    let loopRecoveries = 0;
+    let loopHints: string[] = [];
+    const promptBudgets: DebugInfo['promptBudgets'] = [];
+    const healings: LocatorHealing[] = [...(replay?.healings ?? [])];
     
-    for (let tick = 1; tick <= this.config.maxTicksPerStep; tick++) {
+    // Plan mode first; whatever it leaves unfinished continues tick by tick
+    let firstTick = 1;
+    let plans: number | undefined;
+    if (this.config.planMode) {
+      const planned = await this.runPlan(step, goal, keywords, usage, trajectoryKey, { actions, healings, promptBudgets });
+      if (planned.result) return planned.result;
+      ({ lastObservation, lastLLMResponse, lastError, plans } = planned);
+      firstTick = planned.ticksUsed + 1;
+    }
+    
+    for (let tick = firstTick; tick <= this.config.maxTicksPerStep; tick++) {
       this.logger.debug({ tick }, 'Agent tick');
       
-      // Collect observation
-      lastObservation = await collectObservation(
-        this.page,
-        actions,
+      lastObservation = await this.observe(actions, tick, lastError, keywords, lastObservation);
+      const messages = this.fitPrompt(
         tick,
-        lastError,
-        {
-          ariaSnapshotMaxChars: this.config.ariaSnapshotMaxChars,
-          shortTextMaxChars: this.config.shortTextMaxChars,
-          goalKeywords: keywords,
-        }
+        { goal, expectations, observation: lastObservation, hints: loopHints },
+        memory,
+        promptBudgets
       );
       
-      // Build prompt
-      const systemPrompt = buildSystemPrompt();
-      const userPrompt = buildUserPrompt({
-        goal,
-        expectations,
-        observation: lastObservation,
-      });
+      // Call LLM and parse the action, sending validation issues back for a correction before spending the tick
+      const reply = await this.ask(messages, usage, text => parseAction(text, this.config.maxBatchActions), false);
+      if (reply.error) lastError = reply.error;
+      if (reply.response === null) continue;
+      lastLLMResponse = reply.response;
+      memory?.recordTurn(lastObservation, lastLLMResponse);
+      const parsed = reply.parsed;
+      if (!parsed) continue;
       
-      // Call LLM
-      let llmResponse: string;
-      try {
-        llmResponse = await this.llm.generateAction(
-          systemPrompt + '\n\n' + userPrompt
-        );
-        lastLLMResponse = llmResponse;
-        this.logger.debug({ response: llmResponse.slice(0, 500) }, 'LLM response');
-      } catch (e) {
-        const error = e instanceof Error ? e.message : String(e);
-        this.logger.error({ error }, 'LLM call failed');
-        lastError = `LLM error: ${error}`;
-        continue;
+      if (parsed.thinking) {
+        this.logger.debug({ thinking: this.secrets.scrub(parsed.thinking) }, 'LLM reasoning');
       }
       
-      // Parse action
-      let action: Action;
-      try {
-        const parsed = parseAction(llmResponse);
-        action = parsed.action;
-        if (parsed.thinking) {
-          this.logger.debug({ thinking: parsed.thinking }, 'LLM reasoning');
+      // A batch runs in order within the tick, up to the first failure or navigation
+      const batch = await this.expandFillForms(this.secrets.scrubDeep(parsed.actions ?? [parsed.action!]));
+      const observed = lastObservation;
+      let outcome: { action: Action; success: boolean } | null = null;
+      let pageActionRan = false;
+      
+      for (const [index, proposed] of batch.entries()) {
+        // Frame indexes shift as frames load: act on and record frames by name or URL
+        const chosen = stabilizeFrames(this.page, proposed);
+        // Refs only mean something against this snapshot: execute the ref, record what it points at
+        const action = stabilizeFrames(this.page, stabilizeRefs(chosen, this.elementRefs));
+        this.logger.info(
+          { action: { type: action.type }, ...(batch.length > 1 && { batch: `${index + 1}/${batch.length}` }) },
+          'Executing action'
+        );
+        
+        // Handle fail action
+        if (action.type === 'fail') {
+          return this.secrets.scrubDeep({
+            step,
+            success: false,
+            ticksUsed: tick,
+            actions,
+            expectations: [],
+            error: `Agent gave up: ${action.reason}`,
+            errorCategory: 'agent_gave_up',
+            usage,
+            plans,
+            healed: healings.length > 0 ? healings : undefined,
+            debugInfo: {
+              lastObservation,
+              lastLLMResponse,
+              lastError,
+              promptBudgets,
+            },
+          });
         }
-      } catch (e) {
-        const error = e instanceof Error ? e.message : String(e);
-        this.logger.warn({ error, response: llmResponse.slice(0, 300) }, 'Failed to parse action');
-        lastError = `Parse error: ${error}`;
-        continue;
+        
+        const blocked = blockedActions.get(actionFingerprint(action));
+        
+        if (blocked) {
+          // Refuse actions already identified as part of a loop
+          lastError = `Action blocked: ${blocked} already failed to make progress. Choose a different strategy.`;
+          actions.push({ action, success: false, error: lastError });
+          memory?.recordOutcome(action, false, lastError);
+          outcome = { action, success: false };
+        } else if (action.type === 'assert') {
+          // Handle assert action (verify but don't execute)
+          const assertExpectation: Expectation = {
+            type: action.assertType,
+            value: action.value,
+            locator: action.locator,
+            tab: action.tab,
+          };
+          const { results } = await this.checkExpectations([assertExpectation]);
+          const passed = results[0]?.passed ?? false;
+          actions.push({
+            action,
+            success: passed,
+            error: passed ? undefined : results[0]?.error,
+          });
+          lastError = passed ? null : this.secrets.scrub(results[0]?.error ?? 'Assert failed');
+          memory?.recordOutcome(action, passed, lastError ?? undefined);
+          outcome = { action, success: passed };
+        } else {
+          // Execute page action
+          const { healing, ...result } = this.secrets.scrubDeep(await this.executeAction(chosen as typeof action));
+          // A healed action is recorded with the locator that actually worked
+          const executed = healing ? result.action : action;
+          if (healing) healings.push({ tick, ...healing });
+          actions.push({ ...result, action: executed });
+          lastError = result.error ?? null;
+          memory?.recordOutcome(executed, result.success, result.error);
+          outcome = { action: executed, success: result.success };
+          pageActionRan = true;
+          
+          await this.settle(action);
+        }
+        
+        // The rest of the batch was chosen for the page as it was: report it as not run
+        const rest = batch.slice(index + 1);
+        if (rest.length === 0) break;
+        const navigated = this.secrets.scrub(this.page.url()) !== observed.url;
+        const dialog = this.dialogs.open(this.page);
+        if (outcome.success && !navigated && !dialog) continue;
+        const reason = !outcome.success ? `action ${index + 1} failed` : dialog ? 'a dialog opened' : 'the page navigated';
+        this.logger.info({ skipped: rest.length, reason }, 'Batch stopped early');
+        for (const skipped of rest) {
+          actions.push({
+            action: stabilizeFrames(this.page, stabilizeRefs(skipped, this.elementRefs)),
+            success: false,
+            error: `Not run: the batch stopped because ${reason}`,
+          });
+        }
+        break;
       }
       
-      this.logger.info({ action: { type: action.type } }, 'Executing action');
+      // Loops are judged per tick, by the last action the tick ran
+      if (outcome) loops?.record(observed, outcome.action, outcome.success);
       
-      // Handle fail action
-      if (action.type === 'fail') {
-        return {
-          step,
-          success: false,
-          ticksUsed: tick,
-          actions,
-          expectations: [],
-          error: `Agent gave up: ${action.reason}`,
-          debugInfo: {
-            lastObservation,
-            lastLLMResponse,
-            lastError,
-          },
-        };
+      // Detect loops and recover: hint first, then block the looping actions, then stop
+      const loop = loops?.detect();
+      if (loop) {
+        loopRecoveries++;
+        this.logger.warn({ kind: loop.kind, description: loop.description, loopRecoveries }, 'Loop detected');
+        
+        if (loopRecoveries > this.config.maxLoopRecoveries) {
+          const { results } = await this.checkExpectations(expectations);
+          return this.secrets.scrubDeep({
+            step,
+            success: false,
+            ticksUsed: tick,
+            actions,
+            expectations: results,
+            error: `Loop detected (${loop.kind}): ${loop.description}`,
+            errorCategory: 'loop_detected',
+            usage,
+            plans,
+            healed: healings.length > 0 ? healings : undefined,
+            debugInfo: {
+              lastObservation: observed,
+              lastLLMResponse,
+              lastError,
+              promptBudgets,
+            },
+          });
+        }
+        
+        loopHints = [`You already tried this: ${loop.description}. It is not working.`];
+        if (loopRecoveries === 1) {
+          loopHints.push('Try something different: another locator kind or name from the snapshot, or a different action.');
+        } else {
+          for (const { fingerprint, label } of loop.actions) {
+            blockedActions.set(fingerprint, `"${label}"`);
+          }
+          loopHints.push(
+            `These actions are now blocked: ${loop.actions.map(a => a.label).join('; ')}. ` +
+            'Switch strategy: use a label/text/testid locator instead of role, press Tab or Enter, or wait for the page to settle.'
+          );
+        }
+        loops?.reset();
       }
       
-      // Handle assert action (verify but don't execute)
-      if (action.type === 'assert') {
-        const assertExpectation: Expectation = {
-          type: action.assertType,
-          value: action.value,
-          locator: action.locator,
-        };
-        const { results } = await evaluateAllExpectations(
-          this.page,
-          [assertExpectation],
-          this.config.expectationTimeoutMs
-        );
-        const passed = results[0]?.passed ?? false;
-        actions.push({
-          action,
-          success: passed,
-          error: passed ? undefined : results[0]?.error,
-        });
-        lastError = passed ? null : results[0]?.error ?? 'Assert failed';
+      if (!pageActionRan) {
         continue;
       }
       
-      // Execute page action
-      const result = await this.executeAction(action);
-      actions.push(result);
-      lastError = result.error ?? null;
-      
-      // Small delay for page stability
-      await this.page.waitForTimeout(this.config.postActionDelayMs);
-      
-      // Check if navigation occurred
-      if (action.type === 'click' || action.type === 'goto') {
-        try {
-          await this.page.waitForLoadState('domcontentloaded', { timeout: 5000 });
-        } catch {
-          // Timeout is fine, page might not have navigated
-        }
-      }
-      
       // Evaluate expectations
       if (expectations.length > 0) {
-        const { allPassed, results } = await evaluateAllExpectations(
-          this.page,
-          expectations,
-          this.config.expectationTimeoutMs
-        );
+        const { allPassed, results } = await this.checkExpectations(expectations);
         
         if (allPassed) {
-          this.logger.info({ ticksUsed: tick }, 'Step completed - all expectations met');
-          return {
-            step,
-            success: true,
-            ticksUsed: tick,
-            actions,
-            expectations: results,
-          };
+          return this.stepSucceeded(step, tick, results, usage, trajectoryKey, { actions, healings, plans });
         }
         
         this.logger.debug(
@@ -233,13 +547,9 @@ export class AgentRunner {
     }
     
     // Max ticks exceeded
-    const { results } = await evaluateAllExpectations(
-      this.page,
-      expectations,
-      this.config.expectationTimeoutMs
-    );
+    const { results } = await this.checkExpectations(expectations);
     
-    return {
+    return this.secrets.scrubDeep({
       step,
       success: expectations.length === 0, // Pass if no expectations defined
       ticksUsed: this.config.maxTicksPerStep,
@@ -248,76 +558,784 @@ export class AgentRunner {
       error: expectations.length > 0 
         ? `Max ticks (${this.config.maxTicksPerStep}) exceeded without meeting expectations`
         : undefined,
+      errorCategory: expectations.length > 0 ? 'max_ticks' : undefined,
+      usage,
+      plans,
+      healed: healings.length > 0 ? healings : undefined,
       debugInfo: lastObservation ? {
         lastObservation,
         lastLLMResponse,
         lastError,
+        promptBudgets,
       } : undefined,
+    });
+  }
+
+  /**
+   * Plan mode: ask for every action of the step up front, then execute the
+   * plan while checking each action's preconditions against the live page.
+   * A failed action, a failed assert or a diverged page asks for a new plan,
+   * up to `maxReplans` times. Returns the step result when the plan settles
+   * the step, otherwise the state the per-tick loop continues from.
+   */
+  private async runPlan(
+    step: TestStep,
+    goal: string,
+    keywords: string[],
+    usage: StepUsage,
+    trajectoryKey: TrajectoryKey | null,
+    run: Pick<PlanOutcome, 'actions' | 'healings' | 'promptBudgets'>
+  ): Promise<PlanOutcome & { result: StepResult | null }> {
+    const expectations = step.expect || [];
+    const outcome: PlanOutcome = {
+      ...run,
+      ticksUsed: 0,
+      plans: 0,
+      lastObservation: null,
+      lastLLMResponse: '',
+      lastError: null,
     };
+    const { actions, healings, promptBudgets } = outcome;
+    
+    while (outcome.plans <= this.config.maxReplans && outcome.ticksUsed < this.config.maxTicksPerStep) {
+      outcome.plans++;
+      outcome.lastObservation = await this.observe(
+        actions,
+        outcome.ticksUsed + 1,
+        outcome.lastError,
+        keywords,
+        outcome.lastObservation
+      );
+      const messages = this.fitPrompt(
+        outcome.ticksUsed + 1,
+        { goal, expectations, observation: outcome.lastObservation, plan: true },
+        null,
+        promptBudgets
+      );
+      
+      const reply = await this.ask(messages, usage, parsePlan, true);
+      if (reply.error) outcome.lastError = reply.error;
+      if (reply.response !== null) outcome.lastLLMResponse = reply.response;
+      if (!reply.parsed) continue;
+      if (reply.parsed.thinking) {
+        this.logger.debug({ thinking: this.secrets.scrub(reply.parsed.thinking) }, 'LLM reasoning');
+      }
+      
+      const plan: PlanStep[] = this.secrets.scrubDeep(reply.parsed.plan);
+      this.logger.info({ plan: outcome.plans, actions: plan.map(p => p.action.type) }, 'Executing plan');
+      
+      let completed = true;
+      for (let index = 0; index < plan.length; index++) {
+        if (outcome.ticksUsed >= this.config.maxTicksPerStep) {
+          completed = false;
+          break;
+        }
+        
+        // Form fields are matched to their controls once the plan gets to them
+        const next = plan[index]!;
+        if (next.action.type === 'fill_form') {
+          const fields = await this.expandFillForms([next.action]);
+          plan.splice(index, 1, ...fields.map((action, i) => ({ action, expectUrl: i === 0 ? next.expectUrl : undefined })));
+        }
+        const planned = plan[index]!;
+        
+        const divergence = await this.planDivergence(planned);
+        if (divergence) {
+          this.logger.info({ planStep: index + 1, divergence }, 'Plan diverged - replanning');
+          outcome.lastError = `Plan diverged at step ${index + 1}: ${divergence}`;
+          completed = false;
+          break;
+        }
+        
+        // Refs were assigned in the planning snapshot: execute the ref, record what it points at
+        const tick = ++outcome.ticksUsed;
+        const chosen = stabilizeFrames(this.page, planned.action);
+        const action = stabilizeFrames(this.page, stabilizeRefs(chosen, this.elementRefs));
+        this.logger.info({ action: { type: action.type }, planStep: index + 1 }, 'Executing action');
+        
+        if (action.type === 'fail') {
+          return {
+            ...outcome,
+            result: this.secrets.scrubDeep({
+              step,
+              success: false,
+              ticksUsed: tick,
+              actions,
+              expectations: [],
+              error: `Agent gave up: ${action.reason}`,
+              errorCategory: 'agent_gave_up',
+              usage,
+              plans: outcome.plans,
+              healed: healings.length > 0 ? healings : undefined,
+              debugInfo: {
+                lastObservation: outcome.lastObservation,
+                lastLLMResponse: outcome.lastLLMResponse,
+                lastError: outcome.lastError,
+                promptBudgets,
+              },
+            }),
+          };
+        }
+        
+        if (action.type === 'assert') {
+          const { results } = await this.checkExpectations([
+            { type: action.assertType, value: action.value, locator: action.locator, tab: action.tab },
+          ]);
+          const passed = results[0]?.passed ?? false;
+          actions.push({ action, success: passed, error: passed ? undefined : results[0]?.error });
+          if (!passed) {
+            outcome.lastError = `Plan step ${index + 1} failed: ${this.secrets.scrub(results[0]?.error ?? 'Assert failed')}`;
+            completed = false;
+            break;
+          }
+          continue;
+        }
+        
+        const { healing, ...result } = this.secrets.scrubDeep(await this.executeAction(chosen as typeof action));
+        const executed = healing ? result.action : action;
+        if (healing) healings.push({ tick, ...healing });
+        actions.push({ ...result, action: executed });
+        if (!result.success) {
+          this.logger.info({ planStep: index + 1, error: result.error }, 'Plan action failed - replanning');
+          outcome.lastError = `Plan step ${index + 1} failed: ${result.error}`;
+          completed = false;
+          break;
+        }
+        outcome.lastError = null;
+        await this.settle(action);
+        
+        if (expectations.length > 0) {
+          const { allPassed, results } = await this.checkExpectations(expectations);
+          if (allPassed) {
+            return { ...outcome, result: this.stepSucceeded(step, tick, results, usage, trajectoryKey, outcome) };
+          }
+        }
+      }
+      
+      if (completed) {
+        if (expectations.length === 0) {
+          return { ...outcome, result: this.stepSucceeded(step, outcome.ticksUsed, [], usage, trajectoryKey, outcome) };
+        }
+        outcome.lastError = 'The plan finished but the expectations are not met yet. Plan the remaining actions.';
+      }
+    }
+    
+    this.logger.warn({ plans: outcome.plans }, 'Plan mode did not finish the step - continuing tick by tick');
+    return { ...outcome, result: null };
+  }
+
+  /**
+   * Why a planned action no longer fits the page, or null when it does.
+   * A missing element is left to locator healing when that is enabled.
+   */
+  private async planDivergence(planned: PlanStep): Promise<string | null> {
+    const dialog = this.dialogs.open(this.page);
+    if (dialog && planned.action.type !== 'dialog') {
+      return `a ${dialog.type} dialog is open ("${dialog.message}")`;
+    }
+    const url = this.page.url();
+    if (planned.expectUrl && !url.includes(planned.expectUrl)) {
+      return `expected a URL containing "${planned.expectUrl}", but the page is at ${url}`;
+    }
+    
+    const { action } = planned;
+    // Asserts may check for an element's absence
+    if (action.type === 'assert' || !('locator' in action) || !action.locator || action.locator.kind === 'active') {
+      return null;
+    }
+    const { count } = await checkLocator(locatorFromSpec(this.page, action.locator, this.elementRefs));
+    if (count === 1 || (count === 0 && this.config.locatorHealing)) return null;
+    return count === 0
+      ? `${describeLocator(action.locator)} is not on the page`
+      : `${describeLocator(action.locator)} matches ${count} elements`;
   }
 
   /**
-   * Execute a single page action
+   * Successful result once all expectations are met; caches the trajectory
+   * when there were expectations to verify a replay against
+   */
+  private stepSucceeded(
+    step: TestStep,
+    ticksUsed: number,
+    expectations: ExpectationResult[],
+    usage: StepUsage,
+    trajectoryKey: TrajectoryKey | null,
+    run: { actions: StepResult['actions']; healings: LocatorHealing[]; plans?: number }
+  ): StepResult {
+    const { actions, healings, plans } = run;
+    this.logger.info({ ticksUsed, usage }, 'Step completed - all expectations met');
+    if (trajectoryKey && expectations.length > 0) {
+      this.trajectories!.save(
+        trajectoryKey,
+        actions.filter(a => a.success && a.action.type !== 'assert').map(a => a.action)
+      );
+    }
+    return this.secrets.scrubDeep({
+      step,
+      success: true,
+      ticksUsed,
+      actions,
+      expectations,
+      usage,
+      plans,
+      healed: healings.length > 0 ? healings : undefined,
+    });
+  }
+
+  /**
+   * Evaluate expectations against the active tab. An open dialog blocks the
+   * page until it is answered, so only `dialog_shown` is checked meanwhile.
+   */
+  private async checkExpectations(
+    expectations: Expectation[]
+  ): Promise<{ allPassed: boolean; results: ExpectationResult[] }> {
+    const timeout = this.config.expectationTimeoutMs;
+    const open = this.dialogs.open(this.page);
+    if (!open) {
+      return evaluateAllExpectations(this.page, expectations, timeout, this.downloads, this.dialogs);
+    }
+    const results: ExpectationResult[] = [];
+    for (const expectation of expectations) {
+      results.push(expectation.type === 'dialog_shown'
+        ? await evaluateExpectation(this.page, expectation, timeout, this.downloads, this.dialogs)
+        : { expectation, passed: false, error: `Not checked: a ${open.type} dialog is open` });
+    }
+    return { allPassed: results.every(r => r.passed), results };
+  }
+
+  /**
+   * Give the page a moment after an action, and time to load after a likely navigation
+   */
+  private async settle(action: Action): Promise<void> {
+    // Not page.waitForTimeout: the active tab may close while we wait
+    await new Promise(done => setTimeout(done, this.config.postActionDelayMs));
+    if (action.type === 'click' || action.type === 'goto') {
+      try {
+        await this.page.waitForLoadState('domcontentloaded', { timeout: 5000 });
+      } catch {
+        // Timeout is fine, page might not have navigated
+      }
+    }
+  }
+
+  /**
+   * Replace each `fill_form` with a fill, select or check per field, chosen by
+   * the kind of control its label names. Fields whose control cannot be found
+   * become fills, which then fail (or heal) like any other locator.
+   */
+  private async expandFillForms(actions: Action[]): Promise<Action[]> {
+    const expanded: Action[] = [];
+    for (const action of actions) {
+      if (action.type !== 'fill_form') {
+        expanded.push(action);
+        continue;
+      }
+      for (const { label, value } of action.fields) {
+        const locator: LocatorSpec = { kind: 'label', text: label, ...(action.frame !== undefined && { frame: action.frame }) };
+        const control = await locatorFromSpec(this.page, locator, this.elementRefs)
+          .first()
+          .evaluate(el => `${el.tagName}:${(el as { type?: string }).type ?? ''}`.toLowerCase(), undefined, { timeout: 2000 })
+          .catch(() => '');
+        if (control.startsWith('select:')) {
+          expanded.push({ type: 'select', locator, value });
+        } else if (control === 'input:checkbox' || control === 'input:radio') {
+          expanded.push({ type: 'check', locator, checked: !FALSY_VALUES.has(value.trim().toLowerCase()) });
+        } else {
+          expanded.push({ type: 'fill', locator, text: value });
+        }
+      }
+    }
+    return expanded;
+  }
+
+  /**
+   * When an action's locator matches nothing, find a single confident fuzzy
+   * match for it in the current snapshot
+   */
+  private async healLocator(action: Action): Promise<LocatorHealing | null> {
+    if (!this.config.locatorHealing || !('locator' in action) || !action.locator) return null;
+    const spec = action.locator;
+    if (spec.kind !== 'role' && spec.kind !== 'label' && spec.kind !== 'text') return null;
+    
+    const { exists } = await checkLocator(locatorFromSpec(this.page, spec, this.elementRefs));
+    if (exists) return null;
+    
+    // Heal against the snapshot of the frame the spec searches in
+    const scope = spec.frame !== undefined ? resolveFrame(this.page, spec.frame) : this.page;
+    const snapshot = await scope.locator('body').ariaSnapshot({ timeout: 5000 }).catch(() => '');
+    const match = healLocator(spec, snapshot);
+    if (!match) return null;
+    
+    // The match has to be usable as-is, not trade a missing element for an ambiguous one
+    const { count } = await checkLocator(locatorFromSpec(this.page, match.spec, this.elementRefs));
+    if (count !== 1) return null;
+    
+    this.logger.info(
+      { from: describeLocator(spec), to: describeLocator(match.spec), score: match.score },
+      'Healed locator'
+    );
+    return { actionType: action.type, from: spec, to: match.spec, score: match.score };
+  }
+
+  /**
+   * Observe the page for a tick (scrubbed: filled fields may echo secret values).
+   * Refs in the observation become the targets of `ref` locators.
+   */
+  private async observe(
+    actions: StepResult['actions'],
+    tick: number,
+    lastError: string | null,
+    keywords: string[],
+    previous: Observation | null
+  ): Promise<Observation> {
+    const observation = this.dialogs.open(this.page)
+      ? this.blockedObservation(actions, tick, lastError, previous)
+      : await this.observePage(actions, tick, lastError, keywords, previous);
+    this.elementRefs = observation.elementRefs ?? {};
+    const downloads = this.downloads.list();
+    if (downloads.length > 0) {
+      observation.downloads = downloads.map(({ name, size }) => ({ name, size }));
+    }
+    const dialogs = this.dialogs.list();
+    if (dialogs.length > 0) {
+      observation.dialogs = this.secrets.scrubDeep(dialogs);
+    }
+    return observation;
+  }
+
+  private async observePage(
+    actions: StepResult['actions'],
+    tick: number,
+    lastError: string | null,
+    keywords: string[],
+    previous: Observation | null
+  ): Promise<Observation> {
+    return this.secrets.scrubDeep(await collectObservation(
+      this.page,
+      actions,
+      tick,
+      lastError,
+      {
+        ariaSnapshotMaxTokens: this.config.ariaSnapshotMaxTokens,
+        shortTextMaxChars: this.config.shortTextMaxChars,
+        goalKeywords: keywords,
+        elementRefs: this.config.elementRefs,
+        snapshotDiffs: this.config.snapshotDiffs,
+      },
+      previous
+    ));
+  }
+
+  /**
+   * Observation while a dialog blocks the active tab: scripts cannot run in
+   * the page until it is answered, so nothing is read from it
+   */
+  private blockedObservation(
+    actions: StepResult['actions'],
+    tick: number,
+    lastError: string | null,
+    previous: Observation | null
+  ): Observation {
+    return this.secrets.scrubDeep({
+      url: this.page.url(),
+      title: previous?.title ?? '',
+      ariaSnapshot: '[A dialog is open - the page cannot be read until it is answered]',
+      shortText: '',
+      lastError,
+      previousActions: actions.slice(-5),
+      tickNumber: tick,
+    });
+  }
+
+  /**
+   * Build the messages for a call, shrinking prompt sections by priority to fit the context window
+   */
+  private fitPrompt(
+    tick: number,
+    context: PromptContext,
+    memory: ConversationMemory | null,
+    promptBudgets: DebugInfo['promptBudgets']
+  ): ChatMessage[] {
+    const systemPrompt = buildSystemPrompt({
+      elementRefs: this.config.elementRefs,
+      plan: context.plan,
+      maxBatchActions: this.config.maxBatchActions,
+    });
+    let history = memory?.messages() ?? [];
+    const historySection: PromptSection[] = memory ? [{
+      name: 'history',
+      priority: SECTION_PRIORITY.history,
+      text: history.map(m => m.content).join('\n'),
+      shrink: max => {
+        history = memory.messages(max);
+        return history.map(m => m.content).join('\n');
+      },
+    }] : [];
+    const fitted = fitSections([
+      { name: 'system', priority: Infinity, text: systemPrompt },
+      ...historySection,
+      ...buildPromptSections({ ...context, uploadFiles: this.uploadFiles }),
+    ], this.promptBudgetTokens);
+    promptBudgets.push({ tick, ...fitted.report });
+    this.logger.debug({ tick, promptBudget: fitted.report }, 'Prompt budget');
+    
+    return [
+      { role: 'system', content: systemPrompt },
+      ...history,
+      {
+        role: 'user',
+        content: renderPromptSections(
+          fitted.sections.filter(s => s.name !== 'system' && s.name !== 'history')
+        ),
+      },
+    ];
+  }
+
+  /**
+   * Call the LLM and parse its reply, sending validation issues back for up to
+   * `maxParseCorrections` corrections. `response` is the last (scrubbed) reply,
+   * null when the first call failed; `error` says why nothing was parsed.
+   */
+  private async ask<T>(
+    messages: ChatMessage[],
+    usage: StepUsage,
+    parse: (text: string) => T,
+    plan: boolean
+  ): Promise<{ parsed: T | null; response: string | null; error: string | null }> {
+    const responseFormat = plan ? PLAN_RESPONSE_FORMAT : this.actionResponseFormat;
+    let llmResponse: string;
+    try {
+      llmResponse = await this.chat(messages, usage, responseFormat);
+    } catch (e) {
+      const error = this.secrets.scrub(e instanceof Error ? e.message : String(e));
+      this.logger.error({ error }, 'LLM call failed');
+      return { parsed: null, response: null, error: `LLM error: ${error}` };
+    }
+    
+    let response = this.secrets.scrub(llmResponse);
+    for (let correction = 0; ; correction++) {
+      try {
+        return { parsed: parse(llmResponse), response, error: null };
+      } catch (e) {
+        const error = this.secrets.scrub(e instanceof Error ? e.message : String(e));
+        if (!(e instanceof ActionParseError) || correction >= this.config.maxParseCorrections) {
+          this.logger.warn({ error, response: response.slice(0, 300) }, `Failed to parse ${plan ? 'plan' : 'action'}`);
+          return { parsed: null, response, error: `Parse error: ${error}` };
+        }
+        
+        this.logger.warn(
+          { issues: e.issues, correction: correction + 1 },
+          `Invalid ${plan ? 'plan' : 'action'} - asking LLM to correct it`
+        );
+        messages.push(
+          { role: 'assistant', content: response },
+          { role: 'user', content: buildCorrectionPrompt(e.issues.map(i => this.secrets.scrub(i)), plan) },
+        );
+        try {
+          llmResponse = await this.chat(messages, usage, responseFormat);
+          response = this.secrets.scrub(llmResponse);
+        } catch (llmError) {
+          const message = this.secrets.scrub(llmError instanceof Error ? llmError.message : String(llmError));
+          this.logger.error({ error: message }, 'LLM call failed');
+          return { parsed: null, response, error: `LLM error: ${message}` };
+        }
+      }
+    }
+  }
+
+  /**
+   * Call the LLM and add the call to the step's usage
+   */
+  private async chat(
+    messages: ChatMessage[],
+    usage: StepUsage,
+    responseFormat: ResponseFormat
+  ): Promise<string> {
+    let response;
+    try {
+      response = await this.llm.chat(messages, { responseFormat });
+    } catch (e) {
+      usage.llmAttempts += e instanceof LLMAttemptsExhaustedError ? e.attempts.length : 1;
+      throw e;
+    }
+    
+    usage.llmCalls++;
+    usage.llmAttempts += response.attempts?.length ?? 1;
+    if (response.fallback) usage.llmFallbacks++;
+    usage.latencyMs += response.latencyMs;
+    if (response.usage) {
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+    }
+    if (response.finishReason === 'length') {
+      this.logger.warn({ usage: response.usage }, 'LLM response truncated (finish_reason=length)');
+    }
+    this.logger.debug({ response: this.secrets.scrub(response.content).slice(0, 500) }, 'LLM response');
+    return response.content;
+  }
+
+  /**
+   * Build the cache key for a step from the page structure it starts on
+   */
+  private async trajectoryKey(step: TestStep, context: StepContext): Promise<TrajectoryKey | null> {
+    if (!this.trajectories || !context.testCaseId || context.stepIndex === undefined) {
+      return null;
+    }
+    let ariaSnapshot = '';
+    try {
+      ariaSnapshot = await this.page.locator('body').ariaSnapshot();
+    } catch {
+      // Fingerprint on URL alone
+    }
+    return {
+      testCaseId: context.testCaseId,
+      stepIndex: context.stepIndex,
+      goal: step.goal,
+      fingerprint: structureFingerprint(this.page.url(), ariaSnapshot),
+    };
+  }
+
+  /**
+   * Replay a cached trajectory and verify the step's expectations. When
+   * replay does not succeed the entry is invalidated and `result` is null;
+   * the actions already replayed have changed the page, so they are
+   * returned for the LLM to continue from. Null when nothing is cached.
+   */
+  private async replayTrajectory(
+    step: TestStep,
+    key: TrajectoryKey,
+    usage: StepUsage
+  ): Promise<ReplayOutcome | null> {
+    const trajectory = this.trajectories!.get(key);
+    if (!trajectory) return null;
+    
+    const expectations = step.expect || [];
+    this.logger.info({ actions: trajectory.actions.length }, 'Replaying cached trajectory');
+    
+    const actions: StepResult['actions'] = [];
+    const healings: LocatorHealing[] = [];
+    for (const action of trajectory.actions) {
+      if (action.type === 'fail' || action.type === 'assert') continue;
+      const { healing, ...result } = this.secrets.scrubDeep(await this.executeAction(action));
+      if (healing) healings.push(healing);
+      actions.push({ ...result, replayed: true });
+      if (!result.success) {
+        this.logger.warn(
+          { error: result.error, replayed: actions.length - 1 },
+          'Trajectory replay failed - consulting LLM from the partially replayed page'
+        );
+        this.trajectories!.invalidate(key);
+        return { result: null, actions, healings, error: `Replaying the cached steps failed: ${result.error}` };
+      }
+      await this.settle(action);
+    }
+    
+    const { allPassed, results } = await this.checkExpectations(expectations);
+    if (!allPassed) {
+      this.logger.warn(
+        { results: results.filter(r => !r.passed), replayed: actions.length },
+        'Trajectory replay did not meet expectations - consulting LLM from the replayed page'
+      );
+      this.trajectories!.invalidate(key);
+      return { result: null, actions, healings, error: null };
+    }
+    
+    this.logger.info({ actions: actions.length }, 'Step completed from cached trajectory');
+    const result: StepResult = this.secrets.scrubDeep({
+      step,
+      success: true,
+      ticksUsed: 0,
+      actions,
+      expectations: results,
+      usage,
+      healed: healings.length > 0 ? healings : undefined,
+      replayed: true,
+    });
+    return { result, actions, healings, error: null };
+  }
+
+  /**
+   * Execute a single page action. An action that raises a dialog left to the
+   * agent counts as done: it only finishes once the dialog is answered.
    */
   private async executeAction(
     action: Exclude<Action, { type: 'fail' } | { type: 'assert' }>
-  ): Promise<{ action: Action; success: boolean; error?: string }> {
+  ): Promise<{ action: Action; success: boolean; error?: string; healing?: LocatorHealing }> {
+    const open = this.dialogs.open(this.page);
+    if (open && action.type !== 'dialog') {
+      return {
+        action,
+        success: false,
+        error: `A ${open.type} dialog is open ("${open.message}"): answer it with the dialog action first`,
+      };
+    }
+    const result = await this.dialogs.race(this.page, this.performAction(action));
+    if (result) return result;
+    this.logger.debug({ action: action.type }, 'Action raised a dialog');
+    return { action, success: true };
+  }
+
+  private async performAction(
+    action: Exclude<Action, { type: 'fail' } | { type: 'assert' }>
+  ): Promise<{ action: Action; success: boolean; error?: string; healing?: LocatorHealing }> {
     try {
+      const healing = await this.healLocator(action);
+      if (healing) {
+        const healed = { ...action, locator: healing.to } as typeof action;
+        return { ...(await this.performAction(healed)), action: healed, healing };
+      }
+      
       switch (action.type) {
         case 'click': {
-          const locator = locatorFromSpec(this.page, action.locator);
-          const { exists, count } = await checkLocator(locator);
-          if (!exists) {
-            return {
-              action,
-              success: false,
-              error: `Locator not found: ${describeLocator(action.locator)}`,
-            };
+          const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+          this.logger.debug({ locator: describeLocator(action.locator) }, 'Clicking');
+          await locator.click({ timeout: 10000 });
+          return { action, success: true };
+        }
+        
+        case 'dblclick': {
+          const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+          this.logger.debug({ locator: describeLocator(action.locator) }, 'Double-clicking');
+          await locator.dblclick({ timeout: 10000 });
+          return { action, success: true };
+        }
+        
+        case 'rightclick': {
+          const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+          this.logger.debug({ locator: describeLocator(action.locator) }, 'Right-clicking');
+          await locator.click({ button: 'right', timeout: 10000 });
+          return { action, success: true };
+        }
+        
+        case 'hover': {
+          const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+          this.logger.debug({ locator: describeLocator(action.locator) }, 'Hovering');
+          await locator.hover({ timeout: 10000 });
+          return { action, success: true };
+        }
+        
+        case 'drag': {
+          const source = await resolveLocator(this.page, action.source, this.elementRefs);
+          const target = await resolveLocator(this.page, action.target, this.elementRefs);
+          this.logger.debug(
+            { source: describeLocator(action.source), target: describeLocator(action.target) },
+            'Dragging'
+          );
+          await source.dragTo(target, { timeout: 10000 });
+          return { action, success: true };
+        }
+        
+        case 'scroll': {
+          if (!action.direction) {
+            if (!action.locator) {
+              return { action, success: false, error: 'scroll needs a "direction", a "locator" to bring into view, or both' };
+            }
+            const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+            await locator.scrollIntoViewIfNeeded({ timeout: 10000 });
+            return { action, success: true };
           }
-          this.logger.debug({ locator: describeLocator(action.locator), count }, 'Clicking');
-          await locator.first().click({ timeout: 10000 });
+          const vertical = action.direction === 'up' || action.direction === 'down';
+          const amount = action.amount ?? DEFAULT_SCROLL_AMOUNT;
+          const sign = action.direction === 'up' || action.direction === 'left' ? -1 : 1;
+          const [dx, dy] = vertical ? [0, sign * amount] : [sign * amount, 0];
+          // Scrolling the root element scrolls the page
+          const scroller = action.locator
+            ? await resolveLocator(this.page, action.locator, this.elementRefs)
+            : this.page.locator(':root');
+          this.logger.debug({ direction: action.direction, amount }, 'Scrolling');
+          await scroller.evaluate((el, [x, y]) => el.scrollBy(x!, y!), [dx, dy], { timeout: 10000 });
           return { action, success: true };
         }
         
         case 'fill': {
-          const locator = locatorFromSpec(this.page, action.locator);
-          const { exists } = await checkLocator(locator);
-          if (!exists) {
-            return {
-              action,
-              success: false,
-              error: `Locator not found: ${describeLocator(action.locator)}`,
-            };
-          }
-          const textToFill = this.interpolateVariables(action.text);
+          const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+          // Placeholders are resolved to real values only here, at the page boundary
+          const textToFill = this.secrets.resolve(action.text);
           this.logger.debug({ locator: describeLocator(action.locator) }, 'Filling');
-          await locator.first().fill(textToFill, { timeout: 10000 });
+          await locator.fill(textToFill, { timeout: 10000 });
           return { action, success: true };
         }
         
         case 'press': {
+          const key = this.secrets.resolve(action.key);
           if (action.locator) {
-            const locator = locatorFromSpec(this.page, action.locator);
-            await locator.first().press(action.key, { timeout: 10000 });
+            const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+            await locator.press(key, { timeout: 10000 });
           } else {
-            await this.page.keyboard.press(action.key);
+            await this.page.keyboard.press(key);
           }
           return { action, success: true };
         }
         
         case 'select': {
-          const locator = locatorFromSpec(this.page, action.locator);
-          await locator.first().selectOption(action.value, { timeout: 10000 });
+          const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+          await locator.selectOption(action.value, { timeout: 10000 });
           return { action, success: true };
         }
         
         case 'check': {
-          const locator = locatorFromSpec(this.page, action.locator);
+          const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
           if (action.checked) {
-            await locator.first().check({ timeout: 10000 });
+            await locator.check({ timeout: 10000 });
           } else {
-            await locator.first().uncheck({ timeout: 10000 });
+            await locator.uncheck({ timeout: 10000 });
+          }
+          return { action, success: true };
+        }
+        
+        case 'upload': {
+          const paths = resolveFixturePaths(this.config.fixturesDir, action.files);
+          const locator = await resolveLocator(this.page, action.locator, this.elementRefs);
+          this.logger.debug({ locator: describeLocator(action.locator), files: action.files }, 'Uploading');
+          const control = await locator.evaluate(
+            el => `${el.tagName}:${(el as { type?: string }).type ?? ''}`.toLowerCase(),
+            undefined,
+            { timeout: 10000 }
+          );
+          if (control === 'input:file') {
+            await locator.setInputFiles(paths, { timeout: 10000 });
+          } else {
+            // Buttons and drop zones open the chooser from a hidden input
+            const [chooser] = await Promise.all([
+              this.page.waitForEvent('filechooser', { timeout: 10000 }),
+              locator.click({ timeout: 10000 }),
+            ]);
+            await chooser.setFiles(paths);
+          }
+          return { action, success: true };
+        }
+        
+        case 'switch_tab': {
+          const pages = this.page.context().pages();
+          const target = pages[action.tab];
+          if (!target) {
+            return { action, success: false, error: `No tab ${action.tab}: open tabs are 0-${pages.length - 1}` };
+          }
+          this.page = target;
+          await target.bringToFront();
+          this.logger.debug({ tab: action.tab, url: this.secrets.scrub(target.url()) }, 'Switched tab');
+          return { action, success: true };
+        }
+        
+        case 'close_tab': {
+          const pages = this.page.context().pages();
+          const target = action.tab === undefined ? this.page : pages[action.tab];
+          if (!target) {
+            return { action, success: false, error: `No tab ${action.tab}: open tabs are 0-${pages.length - 1}` };
+          }
+          if (pages.length === 1) {
+            return { action, success: false, error: 'Cannot close the last tab' };
           }
+          // Closing the active tab switches to the newest remaining one (pageClosed)
+          await target.close();
+          return { action, success: true };
+        }
+        
+        case 'dialog': {
+          const text = action.text === undefined ? undefined : this.secrets.resolve(action.text);
+          const dialog = await this.dialogs.answer(this.page, action.accept, text);
+          this.logger.debug({ type: dialog.type, accept: action.accept }, 'Answered dialog');
           return { action, success: true };
         }
         
@@ -339,27 +1357,13 @@ export class AgentRunner {
           };
       }
     } catch (e) {
-      const error = e instanceof Error ? e.message : String(e);
-      this.logger.warn({ action: action.type, error }, 'Action failed');
+      const error = this.secrets.scrub(e instanceof Error ? e.message : String(e));
+      if (e instanceof AmbiguousLocatorError) {
+        this.logger.info({ action: action.type, count: e.count }, 'Ambiguous locator - asking LLM to refine it');
+      } else {
+        this.logger.warn({ action: action.type, error }, 'Action failed');
+      }
       return { action, success: false, error };
     }
   }
-
-  /**
-   * Replace ${ENV.XXX} variables in text
-   */
-  private interpolateVariables(text: string): string {
-    return text.replace(/\$\{ENV\.(\w+)\}/g, (match, name) => {
-      // Check test variables first, then process.env
-      if (this.variables[name] !== undefined) {
-        return this.variables[name];
-      }
-      const envValue = process.env[name];
-      if (envValue !== undefined) {
-        return envValue;
-      }
-      this.logger.warn({ variable: name }, 'Variable not found');
-      return match; // Keep original if not found
-    });
-  }
 }
@@ -0,0 +1,163 @@
+import type { Logger } from '../utils/logger.js';
+
+/**
+ * Variable names treated as secrets even when not listed explicitly
+ */
+const DEFAULT_SECRET_PATTERN = /PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|CREDENTIAL|PIN$/i;
+
+/**
+ * Secret values shorter than this are only scrubbed where they stand alone,
+ * so a PIN is not masked inside every URL or number that contains its digits
+ */
+const MIN_SUBSTRING_SCRUB_LENGTH = 8;
+
+const ENV_REF_PATTERN = /\$\{ENV\.(\w+)\}/g;
+const SECRET_PLACEHOLDER_PATTERN = /\{\{secret:(\w+)\}\}/g;
+
+/**
+ * Opaque placeholder the LLM sees instead of a secret value
+ */
+export function secretPlaceholder(name: string): string {
+  return `{{secret:${name}}}`;
+}
+
+/**
+ * Secret-aware variable resolution.
+ *
+ * Non-secret `${ENV.X}` references are substituted before the goal is sent to
+ * the LLM. Secret references become `{{secret:X}}` placeholders and are only
+ * resolved to real values when an action is executed on the page.
+ */
+export class SecretVariables {
+  private variables: Record<string, string>;
+  private secretNames: Set<string>;
+  private logger?: Logger;
+  /** Short secrets already warned about */
+  private shortSecrets = new Set<string>();
+
+  constructor(
+    variables: Record<string, string> = {},
+    secretNames: string[] = [],
+    logger?: Logger
+  ) {
+    this.variables = variables;
+    this.secretNames = new Set(secretNames);
+    this.logger = logger;
+
+    for (const name of Object.keys(variables)) {
+      if (DEFAULT_SECRET_PATTERN.test(name)) {
+        this.secretNames.add(name);
+      }
+    }
+  }
+
+  /**
+   * Whether a variable name is treated as secret
+   */
+  isSecret(name: string): boolean {
+    return this.secretNames.has(name) || DEFAULT_SECRET_PATTERN.test(name);
+  }
+
+  /**
+   * Interpolate text for the LLM prompt: secrets become placeholders
+   */
+  forPrompt(text: string): string {
+    return text.replace(ENV_REF_PATTERN, (match, name: string) => {
+      if (this.isSecret(name)) {
+        this.secretNames.add(name);
+        return secretPlaceholder(name);
+      }
+      return this.lookup(name) ?? match;
+    });
+  }
+
+  /**
+   * Resolve both `${ENV.X}` references and `{{secret:X}}` placeholders to
+   * real values. Only call this right before handing text to the page.
+   */
+  resolve(text: string): string {
+    const replacer = (match: string, name: string): string => {
+      if (this.isSecret(name)) {
+        this.secretNames.add(name);
+      }
+      return this.lookup(name) ?? match;
+    };
+    return text
+      .replace(SECRET_PLACEHOLDER_PATTERN, replacer)
+      .replace(ENV_REF_PATTERN, replacer);
+  }
+
+  /**
+   * Replace every known secret value in text with its placeholder. Short
+   * values are only replaced where no letter or digit adjoins them.
+   */
+  scrub(text: string): string {
+    let result = text;
+    for (const [name, value] of this.secretValues()) {
+      if (value.length >= MIN_SUBSTRING_SCRUB_LENGTH) {
+        result = result.split(value).join(secretPlaceholder(name));
+        continue;
+      }
+      if (!this.shortSecrets.has(name)) {
+        this.shortSecrets.add(name);
+        this.logger?.warn(
+          { variable: name, length: value.length },
+          'Short secret value - only scrubbed where it stands alone'
+        );
+      }
+      const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      result = result.replace(
+        new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'gu'),
+        secretPlaceholder(name)
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Deep-copy a value with every string scrubbed of secrets
+   */
+  scrubDeep<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.scrub(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(v => this.scrubDeep(v)) as T;
+    }
+    if (value && typeof value === 'object') {
+      const out: Record<string, unknown> = {};
+      for (const [key, v] of Object.entries(value)) {
+        out[key] = this.scrubDeep(v);
+      }
+      return out as T;
+    }
+    return value;
+  }
+
+  private lookup(name: string): string | undefined {
+    // Check test variables first, then process.env
+    if (this.variables[name] !== undefined) {
+      return this.variables[name];
+    }
+    const envValue = process.env[name];
+    if (envValue !== undefined) {
+      return envValue;
+    }
+    this.logger?.warn({ variable: name }, 'Variable not found');
+    return undefined;
+  }
+
+  /**
+   * Known secret values, longest first so overlapping values scrub cleanly
+   */
+  private secretValues(): Array<[string, string]> {
+    const pairs: Array<[string, string]> = [];
+    for (const name of this.secretNames) {
+      const value = this.variables[name] ?? process.env[name];
+      if (value) {
+        pairs.push([name, value]);
+      }
+    }
+    return pairs.sort((a, b) => b[1].length - a[1].length);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Tree-aware pruning of ARIA snapshots that exceed the token budget.
+ *
+ * Nodes are scored by goal keywords, landmarks, interactivity and focus.
+ * The best nodes are kept together with their ancestor path, so the model
+ * still sees which dialog or form a control belongs to; everything else is
+ * collapsed into `… (n items)` markers.
+ */
+
+import { parseAriaNodes, type AriaNode } from './ariaDiff.js';
+import { estimateTokens } from './conversation.js';
+import { INTERACTIVE_ROLES } from './elementRefs.js';
+
+export interface PruneOptions {
+  /** Token budget for the pruned snapshot */
+  maxTokens: number;
+  /** Goal keywords; matching nodes (and everything inside them) rank higher */
+  keywords?: string[];
+  /** Snapshot line of the focused element, e.g. `- textbox "Email"` */
+  focused?: string;
+}
+
+const LANDMARK_ROLES = new Set([
+  'banner',
+  'main',
+  'navigation',
+  'form',
+  'search',
+  'region',
+  'complementary',
+  'contentinfo',
+]);
+
+/** Modal and status content is almost always what the next action is about */
+const URGENT_ROLES = new Set(['dialog', 'alertdialog', 'alert']);
+
+const SCORES = {
+  keyword: 10,
+  focused: 15,
+  urgent: 8,
+  interactive: 3,
+  heading: 2,
+  landmark: 2,
+  text: 1,
+};
+
+/** Share of a parent's priority inherited by its children */
+const INHERIT = 0.5;
+
+/**
+ * Headroom per kept node for the `… (n items)` marker that may follow it
+ */
+const MARKER_TOKENS = 4;
+
+interface ScoredNode {
+  node: AriaNode;
+  line: string;
+  priority: number;
+}
+
+function ownScore(node: AriaNode, keywords: string[], focused: AriaNode | undefined): number {
+  let score = 0;
+  const label = node.label.toLowerCase();
+  score += keywords.filter(kw => label.includes(kw)).length * SCORES.keyword;
+  if (focused && node.role === focused.role && node.name === focused.name) score += SCORES.focused;
+  if (URGENT_ROLES.has(node.role)) score += SCORES.urgent;
+  if (INTERACTIVE_ROLES.has(node.role)) score += SCORES.interactive;
+  if (node.role === 'heading') score += SCORES.heading;
+  if (LANDMARK_ROLES.has(node.role)) score += SCORES.landmark;
+  if (node.role === 'text' || node.role === 'paragraph') score += SCORES.text;
+  return score;
+}
+
+/**
+ * Prune a snapshot to fit `maxTokens`. Snapshots already within budget are
+ * returned unchanged.
+ */
+export function pruneAriaSnapshot(snapshot: string, options: PruneOptions): string {
+  if (estimateTokens(snapshot) <= options.maxTokens) return snapshot;
+
+  const lines = snapshot.split('\n');
+  const nodes = parseAriaNodes(snapshot);
+  const keywords = (options.keywords ?? []).map(k => k.toLowerCase());
+  const focused = options.focused ? parseAriaNodes(options.focused.trim())[0] : undefined;
+
+  // Priority = own score + a share of the parent's, so whole relevant subtrees rank up
+  const byKey = new Map<string, ScoredNode>();
+  const scored = nodes.map(node => {
+    const parent = node.parentKey ? byKey.get(node.parentKey) : undefined;
+    const entry: ScoredNode = {
+      node,
+      line: lines[node.start]!,
+      priority: ownScore(node, keywords, focused) + (parent ? parent.priority * INHERIT : 0),
+    };
+    byKey.set(node.key, entry);
+    return entry;
+  });
+
+  // Greedily keep the best nodes, each with its ancestor path, while the budget lasts
+  const kept = new Set<string>();
+  let used = 0;
+  const ranked = [...scored].sort((a, b) => b.priority - a.priority || a.node.start - b.node.start);
+  for (const entry of ranked) {
+    if (kept.has(entry.node.key)) continue;
+    const path: ScoredNode[] = [];
+    for (let cur: ScoredNode | undefined = entry; cur && !kept.has(cur.node.key);) {
+      path.push(cur);
+      cur = cur.node.parentKey ? byKey.get(cur.node.parentKey) : undefined;
+    }
+    const cost = path.reduce((sum, p) => sum + estimateTokens(`${p.line}\n`) + MARKER_TOKENS, 0);
+    if (used + cost > options.maxTokens) continue;
+    used += cost;
+    for (const p of path) kept.add(p.node.key);
+  }
+
+  return render(scored, kept, lines);
+}
+
+/**
+ * Emit kept lines in document order, replacing each run of dropped
+ * siblings with one marker at their indentation
+ */
+function render(scored: ScoredNode[], kept: Set<string>, lines: string[]): string {
+  const out: string[] = [];
+  let runIndent: string | null = null;
+  let runCount = 0;
+
+  for (let i = 0; i < scored.length;) {
+    const { node } = scored[i]!;
+    if (kept.has(node.key)) {
+      if (runIndent !== null) out.push(`${runIndent}- … (${runCount} items)`);
+      runIndent = null;
+      out.push(lines[node.start]!);
+      i++;
+      continue;
+    }
+
+    // A dropped node takes its whole subtree with it
+    let next = i + 1;
+    while (next < scored.length && scored[next]!.node.start < node.end) next++;
+    const indent = lines[node.start]!.match(/^\s*/)![0];
+    if (runIndent === indent) {
+      runCount += next - i;
+    } else {
+      if (runIndent !== null) out.push(`${runIndent}- … (${runCount} items)`);
+      runIndent = indent;
+      runCount = next - i;
+    }
+    i = next;
+  }
+  if (runIndent !== null) out.push(`${runIndent}- … (${runCount} items)`);
+  return out.join('\n');
+}
@@ -0,0 +1,65 @@
+/**
+ * Tabs and popups: every page of the browser context the runner works in.
+ * Tabs are numbered in the order the context opened them.
+ */
+
+import type { Page } from '@playwright/test';
+
+/**
+ * An open tab as shown to the model
+ */
+export interface TabInfo {
+  index: number;
+  title: string;
+  url: string;
+  /** The tab the runner observes and acts on */
+  active: boolean;
+}
+
+/**
+ * Index, or text found in the tab's URL or title
+ */
+export type TabRef = number | string;
+
+/**
+ * Open tabs of the context `active` belongs to
+ */
+export async function listTabs(active: Page): Promise<TabInfo[]> {
+  return Promise.all(active.context().pages().map(async (page, index) => ({
+    index,
+    // A tab that is closing or still loading has no title yet
+    title: await page.title().catch(() => ''),
+    url: page.url(),
+    active: page === active,
+  })));
+}
+
+/**
+ * The open tab `tab` refers to, if any
+ */
+export async function findTab(pages: Page[], tab: TabRef): Promise<Page | undefined> {
+  if (typeof tab === 'number') return pages[tab];
+  for (const page of pages) {
+    if (page.url().includes(tab)) return page;
+    if ((await page.title().catch(() => '')).includes(tab)) return page;
+  }
+  return undefined;
+}
+
+/**
+ * The tab `tab` refers to in the context of `page`, waiting up to
+ * `timeoutMs` for a popup that has not opened yet
+ */
+export async function waitForTab(page: Page, tab: TabRef, timeoutMs: number): Promise<Page> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const pages = page.context().pages();
+    const found = await findTab(pages, tab);
+    if (found) return found;
+    if (Date.now() >= deadline) {
+      const open = pages.map((p, i) => `[${i}] ${p.url()}`).join(', ');
+      throw new Error(`No tab ${typeof tab === 'number' ? tab : `matching "${tab}"`} (open: ${open || 'none'})`);
+    }
+    await new Promise(done => setTimeout(done, 100));
+  }
+}
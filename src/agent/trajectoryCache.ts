@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { ActionSchema, type Action } from './actionSchema.js';
+
+/**
+ * Identifies a cached trajectory: a step of a test case on a given page structure
+ */
+export interface TrajectoryKey {
+  testCaseId: string;
+  stepIndex: number;
+  goal: string;
+  fingerprint: string;
+}
+
+const TrajectorySchema = z.object({
+  goal: z.string(),
+  fingerprint: z.string(),
+  actions: z.array(ActionSchema),
+  recordedAt: z.string(),
+});
+
+const TrajectoryFileSchema = z.object({
+  entries: z.record(TrajectorySchema),
+});
+
+export type Trajectory = z.infer<typeof TrajectorySchema>;
+type TrajectoryFile = z.infer<typeof TrajectoryFileSchema>;
+
+/**
+ * Fingerprint the page structure a step starts from.
+ *
+ * Uses origin + path (no query/hash) and the ARIA tree with field values and
+ * digits normalised away, so the same form with different data still matches.
+ */
+export function structureFingerprint(url: string, ariaSnapshot: string): string {
+  let location = url;
+  try {
+    const parsed = new URL(url);
+    location = `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    // Keep raw URL (e.g. about:blank)
+  }
+
+  const skeleton = ariaSnapshot
+    .split('\n')
+    .map(line => line.replace(/:\s.*$/, '').replace(/\d+/g, '#').trimEnd())
+    .filter(line => line.trim().length > 0)
+    .join('\n');
+
+  const hash = createHash('sha1').update(skeleton).digest('hex').slice(0, 16);
+  return `${location}#${hash}`;
+}
+
+function sanitizeFilename(id: string): string {
+  return id
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+function goalHash(goal: string): string {
+  return createHash('sha1').update(goal).digest('hex').slice(0, 8);
+}
+
+/**
+ * File-backed cache of successful step trajectories (one JSON file per test case).
+ *
+ * Stored actions keep `{{secret:NAME}}` placeholders, never resolved values.
+ */
+export class TrajectoryCache {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Look up a trajectory recorded for this step and page structure
+   */
+  get(key: TrajectoryKey): Trajectory | null {
+    const file = this.load(key.testCaseId);
+    return file.entries[this.entryKey(key)] ?? null;
+  }
+
+  /**
+   * Store the action sequence of a successful step
+   */
+  save(key: TrajectoryKey, actions: Action[]): void {
+    const file = this.load(key.testCaseId);
+    file.entries[this.entryKey(key)] = {
+      goal: key.goal,
+      fingerprint: key.fingerprint,
+      actions,
+      recordedAt: new Date().toISOString(),
+    };
+    this.write(key.testCaseId, file);
+  }
+
+  /**
+   * Drop a trajectory that no longer replays cleanly
+   */
+  invalidate(key: TrajectoryKey): void {
+    const file = this.load(key.testCaseId);
+    const entryKey = this.entryKey(key);
+    if (!(entryKey in file.entries)) return;
+    delete file.entries[entryKey];
+    this.write(key.testCaseId, file);
+  }
+
+  private entryKey(key: TrajectoryKey): string {
+    return `${key.stepIndex}:${goalHash(key.goal)}:${key.fingerprint}`;
+  }
+
+  private filePath(testCaseId: string): string {
+    return join(this.dir, `${sanitizeFilename(testCaseId)}.json`);
+  }
+
+  private load(testCaseId: string): TrajectoryFile {
+    const path = this.filePath(testCaseId);
+    if (!existsSync(path)) return { entries: {} };
+    try {
+      const parsed = TrajectoryFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+      return parsed.success ? parsed.data : { entries: {} };
+    } catch {
+      // Corrupt cache files are treated as empty and overwritten on next save
+      return { entries: {} };
+    }
+  }
+
+  private write(testCaseId: string, file: TrajectoryFile): void {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(this.filePath(testCaseId), JSON.stringify(file, null, 2) + '\n', 'utf-8');
+  }
+}
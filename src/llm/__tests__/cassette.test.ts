@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the record/replay cassette provider.
+ *
+ * Run via:  npx tsx --test src/llm/__tests__/cassette.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CassetteProvider, CassetteMismatchError, diffLines, promptKey } from '../cassette.js';
+import { StubProvider, type ChatMessage } from '../provider.js';
+
+function prompt(user: string): ChatMessage[] {
+  return [
+    { role: 'system', content: 'You are a web automation agent.' },
+    { role: 'user', content: user },
+  ];
+}
+
+describe('promptKey', () => {
+  it('ignores whitespace differences', () => {
+    assert.equal(
+      promptKey(prompt('GOAL: log in\nURL:  https://example.com ')),
+      promptKey(prompt('GOAL: log in \n URL: https://example.com')),
+    );
+  });
+
+  it('distinguishes different prompts', () => {
+    assert.notEqual(promptKey(prompt('GOAL: a')), promptKey(prompt('GOAL: b')));
+  });
+});
+
+describe('diffLines', () => {
+  it('marks removed and added lines', () => {
+    assert.equal(diffLines('a\nb\nc', 'a\nx\nc'), '  a\n- b\n+ x\n  c');
+  });
+});
+
+describe('CassetteProvider', () => {
+  let dir: string;
+  let path: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'qacr-cassettes-'));
+    path = join(dir, 'login.json');
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records responses and replays them without the inner provider', async () => {
+    const recorder = new CassetteProvider(
+      new StubProvider(['{"action":{"type":"wait","ms":100}}', '{"action":{"type":"wait","ms":200}}']),
+      { mode: 'record', path },
+    );
+    await recorder.chat(prompt('tick 1'));
+    await recorder.chat(prompt('tick 2'));
+
+    const replay = new CassetteProvider(null, { mode: 'replay', path });
+    assert.equal((await replay.chat(prompt('tick 2'))).content, '{"action":{"type":"wait","ms":200}}');
+    assert.equal((await replay.chat(prompt('tick 1'))).content, '{"action":{"type":"wait","ms":100}}');
+  });
+
+  it('reports a readable diff on replay mismatch', async () => {
+    const replay = new CassetteProvider(null, { mode: 'replay', path });
+    await assert.rejects(
+      () => replay.chat(prompt('tick 3')),
+      (err: Error) => {
+        assert.ok(err instanceof CassetteMismatchError);
+        assert.match(err.message, /- tick 1|- tick 2/);
+        assert.match(err.message, /\+ tick 3/);
+        return true;
+      },
+    );
+  });
+
+  it('enforces recorded order in strict-replay', async () => {
+    const strict = new CassetteProvider(null, { mode: 'strict-replay', path });
+    await assert.rejects(() => strict.chat(prompt('tick 2')), /interaction #1 differs/);
+  });
+
+  it('records misses in replay-or-record', async () => {
+    const provider = new CassetteProvider(
+      new StubProvider(['{"action":{"type":"wait","ms":300}}']),
+      { mode: 'replay-or-record', path },
+    );
+    assert.equal((await provider.chat(prompt('tick 1'))).content, '{"action":{"type":"wait","ms":100}}');
+    assert.equal((await provider.chat(prompt('tick 3'))).content, '{"action":{"type":"wait","ms":300}}');
+
+    const replay = new CassetteProvider(null, { mode: 'replay', path });
+    assert.equal((await replay.chat(prompt('tick 3'))).content, '{"action":{"type":"wait","ms":300}}');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the OpenAI-compatible and Ollama providers against a local
+ * stand-in server.
+ *
+ * Run via:  npx tsx --test src/llm/__tests__/providers.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleProvider, apiUrl } from '../openai.js';
+import { OllamaProvider } from '../ollama.js';
+import type { ResponseFormat } from '../provider.js';
+
+interface Captured {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown> | null;
+}
+
+const ACTION = '{"action":{"type":"wait","ms":100}}';
+
+const FORMAT: ResponseFormat = {
+  name: 'agent_action',
+  schema: { type: 'object', properties: { action: { type: 'object' } }, required: ['action'] },
+  strict: true,
+};
+
+describe('LLM providers against a stand-in server', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: Captured[] = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({
+          path: req.url ?? '',
+          headers: req.headers,
+          body: raw ? JSON.parse(raw) : null,
+        });
+        res.setHeader('Content-Type', 'application/json');
+        switch (req.url) {
+          case '/v1/chat/completions':
+            res.end(JSON.stringify({
+              id: 'cmpl-1',
+              object: 'chat.completion',
+              created: 0,
+              model: 'local-model',
+              choices: [{ index: 0, message: { role: 'assistant', content: ACTION }, finish_reason: 'stop' }],
+              usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+            }));
+            break;
+          case '/v1/models':
+            res.end(JSON.stringify({ data: [{ id: 'local-model' }] }));
+            break;
+          case '/api/chat':
+            res.end(JSON.stringify({
+              model: 'llama3.2',
+              message: { role: 'assistant', content: ACTION },
+              done_reason: 'stop',
+              prompt_eval_count: 20,
+              eval_count: 8,
+            }));
+            break;
+          case '/api/tags':
+            res.end(JSON.stringify({ models: [{ name: 'llama3.2:latest' }, { name: 'qwen2.5:7b' }] }));
+            break;
+          default:
+            res.statusCode = 404;
+            res.end('{}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('joins base URLs with or without /v1', () => {
+    assert.equal(apiUrl('http://host:8080/', '/models'), 'http://host:8080/v1/models');
+    assert.equal(apiUrl('http://host:8080/v1', '/models'), 'http://host:8080/v1/models');
+  });
+
+  it('sends OpenAI-compatible requests with custom auth and extra body', async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl,
+      model: 'local-model',
+      apiKey: 'secret-key',
+      authHeader: 'X-Api-Key',
+      authScheme: '',
+      extraBody: { repeat_penalty: 1.1 },
+      jsonMode: 'none',
+    });
+
+    const response = await provider.chat(
+      [{ role: 'system', content: 'sys' }, { role: 'user', content: 'hi' }],
+      { temperature: 0 },
+    );
+    assert.equal(response.content, ACTION);
+    assert.deepEqual(response.usage, { promptTokens: 12, completionTokens: 5, totalTokens: 17 });
+    assert.equal(response.finishReason, 'stop');
+
+    const sent = requests[requests.length - 1]!;
+    assert.equal(sent.headers['x-api-key'], 'secret-key');
+    assert.equal(sent.headers['authorization'], undefined);
+    assert.equal(sent.body?.temperature, 0);
+    assert.equal(sent.body?.repeat_penalty, 1.1);
+    assert.equal(sent.body?.response_format, undefined);
+  });
+
+  it('sends the request schema as a json_schema response format', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl, apiKey: '', jsonMode: 'json_schema' });
+
+    await provider.chat([{ role: 'user', content: 'hi' }], { responseFormat: FORMAT });
+    assert.deepEqual(requests[requests.length - 1]!.body?.response_format, {
+      type: 'json_schema',
+      json_schema: { name: 'agent_action', schema: FORMAT.schema, strict: true },
+    });
+
+    await provider.chat([{ role: 'user', content: 'hi' }]);
+    assert.deepEqual(requests[requests.length - 1]!.body?.response_format, { type: 'json_object' });
+  });
+
+  it('lists OpenAI-compatible models and reports health', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl, apiKey: '' });
+    assert.equal(await provider.healthCheck(), true);
+    assert.deepEqual(await provider.listModels(), ['local-model']);
+  });
+
+  it('talks to the native Ollama chat API', async () => {
+    const provider = new OllamaProvider({ baseUrl, model: 'llama3.2', apiKey: '' });
+    const response = await provider.chat([{ role: 'user', content: 'hi' }], { maxTokens: 64 });
+    assert.equal(response.content, ACTION);
+    assert.deepEqual(response.usage, { promptTokens: 20, completionTokens: 8, totalTokens: 28 });
+
+    const sent = requests[requests.length - 1]!;
+    assert.equal(sent.path, '/api/chat');
+    assert.equal(sent.body?.format, 'json');
+    assert.equal(sent.body?.stream, false);
+    assert.deepEqual((sent.body?.options as Record<string, unknown>).num_predict, 64);
+  });
+
+  it('sends the request schema as the Ollama format', async () => {
+    const provider = new OllamaProvider({ baseUrl, apiKey: '', jsonMode: 'schema' });
+    await provider.chat([{ role: 'user', content: 'hi' }], { responseFormat: FORMAT });
+    assert.deepEqual(requests[requests.length - 1]!.body?.format, FORMAT.schema);
+  });
+
+  it('lists Ollama models and reports health', async () => {
+    const provider = new OllamaProvider({ baseUrl, apiKey: '' });
+    assert.equal(await provider.healthCheck(), true);
+    assert.deepEqual(await provider.listModels(), ['llama3.2:latest', 'qwen2.5:7b']);
+  });
+
+  it('reports unreachable servers as unhealthy', async () => {
+    const provider = new OllamaProvider({ baseUrl: 'http://127.0.0.1:1', apiKey: '' });
+    assert.equal(await provider.healthCheck(), false);
+    assert.deepEqual(await provider.listModels(), []);
+  });
+});
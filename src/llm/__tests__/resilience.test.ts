@@ -0,0 +1,168 @@
+/**
+ * Unit tests for retries, fallback chains and the token-bucket rate limiter.
+ *
+ * Run via:  npx tsx --test src/llm/__tests__/resilience.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LLMRequestError, LLMAttemptsExhaustedError, parseRetryAfter } from '../errors.js';
+import { RetryingProvider, backoffDelay } from '../retry.js';
+import { FallbackProvider } from '../fallback.js';
+import { TokenBucket } from '../rateLimiter.js';
+import { parseFallbacks } from '../index.js';
+import { StubProvider, type LLMProvider, type ChatResponse } from '../provider.js';
+
+const ACTION = '{"action":{"type":"wait","ms":100}}';
+
+/**
+ * Throws the queued errors in order, then answers
+ */
+class FlakyProvider implements LLMProvider {
+  calls = 0;
+  constructor(private errors: Error[]) {}
+
+  async chat(): Promise<ChatResponse> {
+    const error = this.errors[this.calls++];
+    if (error) throw error;
+    return { content: ACTION, latencyMs: 1 };
+  }
+}
+
+describe('parseRetryAfter', () => {
+  it('reads delay seconds and HTTP dates', () => {
+    assert.equal(parseRetryAfter('2'), 2000);
+    assert.equal(parseRetryAfter(new Date(10_000).toUTCString(), 4_000), 6000);
+    assert.equal(parseRetryAfter('soon'), undefined);
+    assert.equal(parseRetryAfter(null), undefined);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per retry, jitters within the upper half and caps', () => {
+    assert.equal(backoffDelay(1, 100, 10_000, () => 0), 50);
+    assert.equal(backoffDelay(3, 100, 10_000, () => 1), 400);
+    assert.equal(backoffDelay(10, 100, 1_000, () => 1), 1000);
+  });
+});
+
+describe('RetryingProvider', () => {
+  it('retries 429, 5xx and timeouts, recording every attempt', async () => {
+    const inner = new FlakyProvider([
+      new LLMRequestError('rate limited', { status: 429, retryAfterMs: 5 }),
+      new LLMRequestError('bad gateway', { status: 502 }),
+      new LLMRequestError('timed out', { timedOut: true }),
+    ]);
+    const provider = new RetryingProvider(inner, { name: 'primary', maxRetries: 3, baseDelayMs: 1, maxDelayMs: 10 });
+
+    const response = await provider.chat([{ role: 'user', content: 'hi' }]);
+    assert.equal(response.content, ACTION);
+    assert.equal(inner.calls, 4);
+    assert.deepEqual(response.attempts?.map(a => [a.attempt, a.ok, a.status]), [
+      [1, false, 429],
+      [2, false, 502],
+      [3, false, undefined],
+      [4, true, undefined],
+    ]);
+    assert.equal(response.attempts?.[1]?.waitMs, 5, 'Retry-After is honoured');
+  });
+
+  it('does not retry client errors', async () => {
+    const inner = new FlakyProvider([new LLMRequestError('bad request', { status: 400 })]);
+    const provider = new RetryingProvider(inner, { maxRetries: 3, baseDelayMs: 1 });
+
+    await assert.rejects(provider.chat([]), (e: unknown) => {
+      assert.ok(e instanceof LLMAttemptsExhaustedError);
+      assert.equal(e.attempts.length, 1);
+      return true;
+    });
+    assert.equal(inner.calls, 1);
+  });
+
+  it('gives up when Retry-After exceeds the maximum delay', async () => {
+    const inner = new FlakyProvider([new LLMRequestError('rate limited', { status: 429, retryAfterMs: 60_000 })]);
+    const provider = new RetryingProvider(inner, { maxRetries: 3, maxDelayMs: 1000 });
+
+    await assert.rejects(provider.chat([]), LLMAttemptsExhaustedError);
+    assert.equal(inner.calls, 1);
+  });
+});
+
+describe('FallbackProvider', () => {
+  it('moves down the chain and reports all attempts', async () => {
+    const failing = new RetryingProvider(
+      new FlakyProvider([
+        new LLMRequestError('overloaded', { status: 503 }),
+        new LLMRequestError('overloaded', { status: 503 }),
+      ]),
+      { name: 'primary', maxRetries: 1, baseDelayMs: 1 },
+    );
+    const secondary = new RetryingProvider(new StubProvider([ACTION]), { name: 'secondary' });
+    const provider = new FallbackProvider([
+      { name: 'primary', provider: failing },
+      { name: 'secondary', provider: secondary },
+    ]);
+
+    const response = await provider.chat([]);
+    assert.equal(response.content, ACTION);
+    assert.equal(response.fallback, true);
+    assert.deepEqual(response.attempts?.map(a => `${a.provider}#${a.attempt}:${a.ok}`), [
+      'primary#1:false',
+      'primary#2:false',
+      'secondary#1:true',
+    ]);
+  });
+
+  it('throws with every attempt when the whole chain fails', async () => {
+    const provider = new FallbackProvider([
+      { name: 'a', provider: new FlakyProvider([new Error('down')]) },
+      { name: 'b', provider: new FlakyProvider([new Error('down too')]) },
+    ]);
+    await assert.rejects(provider.chat([]), (e: unknown) => {
+      assert.ok(e instanceof LLMAttemptsExhaustedError);
+      assert.equal(e.attempts.length, 2);
+      assert.match(e.message, /a: down; b: down too/);
+      return true;
+    });
+  });
+});
+
+describe('parseFallbacks', () => {
+  it('splits provider from model on the first colon only', () => {
+    assert.deepEqual(parseFallbacks('chutes:unsloth/Llama-3.2-1B-Instruct, Ollama:qwen2.5:7b,stub'), [
+      { provider: 'chutes', model: 'unsloth/Llama-3.2-1B-Instruct' },
+      { provider: 'ollama', model: 'qwen2.5:7b' },
+      { provider: 'stub' },
+    ]);
+  });
+});
+
+describe('TokenBucket', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'qacr-ratelimit-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('allows a burst, then waits for refill', async () => {
+    const bucket = new TokenBucket({ refillPerSecond: 20, capacity: 2 });
+    assert.ok(await bucket.acquire() < 10);
+    assert.ok(await bucket.acquire() < 10);
+    assert.ok(await bucket.acquire() >= 30, 'third token waits ~50ms for refill');
+  });
+
+  it('shares one budget between buckets using the same state file', async () => {
+    const statePath = join(dir, 'shared.json');
+    const workerA = new TokenBucket({ refillPerSecond: 20, capacity: 1, statePath });
+    const workerB = new TokenBucket({ refillPerSecond: 20, capacity: 1, statePath });
+    assert.ok(await workerA.acquire() < 10);
+    assert.ok(await workerB.acquire() >= 30, 'second worker waits for the shared bucket');
+  });
+});
@@ -0,0 +1,282 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { z } from 'zod';
+import type { LLMProvider, ChatMessage, ChatOptions, ChatResponse } from './provider.js';
+
+/**
+ * How a cassette provider treats the wrapped provider:
+ * - record: always call through and overwrite the cassette
+ * - replay: answer only from the cassette (any recorded order)
+ * - replay-or-record: answer from the cassette, call through on a miss
+ * - strict-replay: answer from the cassette in exactly the recorded order
+ */
+export type CassetteMode = 'record' | 'replay' | 'replay-or-record' | 'strict-replay';
+
+export const CASSETTE_MODES: CassetteMode[] = ['record', 'replay', 'replay-or-record', 'strict-replay'];
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  /** Cassette JSON file */
+  path: string;
+}
+
+const InteractionSchema = z.object({
+  key: z.string(),
+  request: z.object({
+    messages: z.array(z.object({
+      role: z.enum(['system', 'user', 'assistant']),
+      content: z.string(),
+    })),
+  }),
+  response: z.object({
+    content: z.string(),
+    usage: z.object({
+      promptTokens: z.number(),
+      completionTokens: z.number(),
+      totalTokens: z.number(),
+    }).optional(),
+    latencyMs: z.number(),
+    finishReason: z.string().optional(),
+    model: z.string().optional(),
+  }),
+  recordedAt: z.string(),
+});
+
+const CassetteFileSchema = z.object({
+  version: z.literal(1),
+  interactions: z.array(InteractionSchema),
+});
+
+type Interaction = z.infer<typeof InteractionSchema>;
+type CassetteFile = z.infer<typeof CassetteFileSchema>;
+
+/**
+ * Raised when a request has no recorded response; the message carries a prompt diff
+ */
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Normalise message content so cosmetic differences don't change the key:
+ * whitespace runs, timestamps and long hex ids are collapsed.
+ */
+export function normalizeContent(content: string): string {
+  return content
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z?/g, '<timestamp>')
+    .replace(/\b[0-9a-f]{16,}\b/gi, '<hex>')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+/**
+ * Stable hash of a normalised message array
+ */
+export function promptKey(messages: ChatMessage[]): string {
+  const normalized = messages.map(m => [m.role, normalizeContent(m.content)]);
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 24);
+}
+
+/**
+ * Line diff between a recorded and an actual prompt (LCS based, with context)
+ */
+export function diffLines(expected: string, actual: string, context = 2): string {
+  const a = expected.split('\n');
+  const b = actual.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const ops: Array<{ op: ' ' | '-' | '+'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ op: ' ', line: a[i++]! });
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      ops.push({ op: '-', line: a[i++]! });
+    } else {
+      ops.push({ op: '+', line: b[j++]! });
+    }
+  }
+  while (i < a.length) ops.push({ op: '-', line: a[i++]! });
+  while (j < b.length) ops.push({ op: '+', line: b[j++]! });
+
+  // Keep changed lines plus a little context around them
+  const keep = ops.map(o => o.op !== ' ');
+  const visible = ops.map((_, idx) =>
+    keep.slice(Math.max(0, idx - context), idx + context + 1).some(Boolean)
+  );
+  const out: string[] = [];
+  ops.forEach((o, idx) => {
+    if (visible[idx]) {
+      out.push(`${o.op} ${o.line}`);
+    } else if (visible[idx - 1]) {
+      out.push('  ...');
+    }
+  });
+  return out.join('\n');
+}
+
+function renderMessages(messages: ChatMessage[]): string {
+  return messages
+    .map(m => `[${m.role}]\n${normalizeContent(m.content)}`)
+    .join('\n');
+}
+
+/**
+ * Records and replays LLM request/response pairs on disk, keyed by a
+ * normalised prompt hash, so agent and review runs can work offline.
+ */
+export class CassetteProvider implements LLMProvider {
+  private inner: LLMProvider | null;
+  private config: CassetteConfig;
+  private cassette: CassetteFile;
+  private usage = new Map<string, number>();
+  private position = 0;
+
+  constructor(inner: LLMProvider | null, config: CassetteConfig) {
+    if (!inner && (config.mode === 'record' || config.mode === 'replay-or-record')) {
+      throw new Error(`Cassette mode "${config.mode}" needs a provider to record from`);
+    }
+    this.inner = inner;
+    this.config = config;
+    this.cassette = config.mode === 'record'
+      ? { version: 1, interactions: [] }
+      : this.load();
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    const key = promptKey(messages);
+
+    if (this.config.mode === 'record') {
+      return this.recordCall(key, messages, options);
+    }
+
+    const recorded = this.config.mode === 'strict-replay'
+      ? this.nextInOrder(key, messages)
+      : this.findByKey(key);
+
+    if (recorded) {
+      return { ...recorded.response, latencyMs: 0 };
+    }
+
+    if (this.config.mode === 'replay-or-record') {
+      return this.recordCall(key, messages, options);
+    }
+
+    throw this.mismatch(messages, this.nearest(messages));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    // Replay needs no network; recording needs the wrapped provider
+    if (this.config.mode === 'replay' || this.config.mode === 'strict-replay') return true;
+    return this.inner?.healthCheck ? this.inner.healthCheck() : true;
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.inner?.listModels ? this.inner.listModels() : [];
+  }
+
+  private async recordCall(
+    key: string,
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<ChatResponse> {
+    const response = await this.inner!.chat(messages, options);
+    // Attempt metrics describe this live call only; replays report none
+    const { content, usage, latencyMs, finishReason, model } = response;
+    this.cassette.interactions.push({
+      key,
+      request: { messages },
+      response: { content, usage, latencyMs, finishReason, model },
+      recordedAt: new Date().toISOString(),
+    });
+    this.save();
+    return response;
+  }
+
+  /**
+   * Same prompt asked several times is answered with successive recordings,
+   * repeating the last one once they run out.
+   */
+  private findByKey(key: string): Interaction | null {
+    const matches = this.cassette.interactions.filter(i => i.key === key);
+    if (matches.length === 0) return null;
+    const used = this.usage.get(key) ?? 0;
+    this.usage.set(key, used + 1);
+    return matches[Math.min(used, matches.length - 1)]!;
+  }
+
+  private nextInOrder(key: string, messages: ChatMessage[]): Interaction {
+    const expected = this.cassette.interactions[this.position];
+    if (!expected) {
+      throw new CassetteMismatchError(
+        `Cassette ${this.config.path} exhausted after ${this.position} interaction(s); unexpected extra LLM call`
+      );
+    }
+    if (expected.key !== key) {
+      throw this.mismatch(messages, expected, `interaction #${this.position + 1} differs from the recording`);
+    }
+    this.position++;
+    return expected;
+  }
+
+  /**
+   * Recorded interaction whose prompt shares the most lines with this one
+   */
+  private nearest(messages: ChatMessage[]): Interaction | null {
+    const actualLines = new Set(renderMessages(messages).split('\n'));
+    let best: Interaction | null = null;
+    let bestScore = -1;
+    for (const interaction of this.cassette.interactions) {
+      const lines = renderMessages(interaction.request.messages).split('\n');
+      const score = lines.filter(l => actualLines.has(l)).length;
+      if (score > bestScore) {
+        best = interaction;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  private mismatch(
+    messages: ChatMessage[],
+    closest: Interaction | null,
+    reason = 'no recorded response for this prompt'
+  ): CassetteMismatchError {
+    const header = `Cassette ${this.config.path} (${this.config.mode}): ${reason}`;
+    if (!closest) {
+      return new CassetteMismatchError(`${header}. The cassette is empty - record it with LLM_CASSETTE_MODE=record.`);
+    }
+    const diff = diffLines(renderMessages(closest.request.messages), renderMessages(messages));
+    return new CassetteMismatchError(
+      `${header}. Diff against closest recording (- recorded, + actual):\n${diff}`
+    );
+  }
+
+  private load(): CassetteFile {
+    if (!existsSync(this.config.path)) {
+      return { version: 1, interactions: [] };
+    }
+    const parsed = CassetteFileSchema.safeParse(JSON.parse(readFileSync(this.config.path, 'utf-8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid cassette ${this.config.path}: ${parsed.error.issues[0]?.message}`);
+    }
+    return parsed.data;
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.config.path), { recursive: true });
+    writeFileSync(this.config.path, JSON.stringify(this.cassette, null, 2) + '\n', 'utf-8');
+  }
+}
@@ -0,0 +1,77 @@
+import type { LLMAttempt } from './provider.js';
+
+/**
+ * A failed request to an LLM API, carrying what the retry layer needs
+ */
+export class LLMRequestError extends Error {
+  /** HTTP status, when the server answered */
+  readonly status?: number;
+  /** Delay the server asked for via `Retry-After` */
+  readonly retryAfterMs?: number;
+  readonly timedOut: boolean;
+
+  constructor(
+    message: string,
+    details: { status?: number; retryAfterMs?: number; timedOut?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.timedOut = details.timedOut ?? false;
+  }
+
+  /**
+   * Rate limits, server errors and timeouts are worth another attempt
+   */
+  get retryable(): boolean {
+    if (this.timedOut) return true;
+    if (this.status === undefined) return false;
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Every attempt (retries and fallbacks included) failed
+ */
+export class LLMAttemptsExhaustedError extends Error {
+  readonly attempts: LLMAttempt[];
+
+  constructor(message: string, attempts: LLMAttempt[]) {
+    super(message);
+    this.name = 'LLMAttemptsExhaustedError';
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Error for a non-2xx response
+ */
+export async function responseError(provider: string, response: Response): Promise<LLMRequestError> {
+  const errorText = await response.text();
+  return new LLMRequestError(`${provider} API error ${response.status}: ${errorText}`, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  });
+}
+
+/**
+ * Is this error worth retrying? Network failures (fetch rejecting) count too.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMRequestError) return error.retryable;
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
@@ -0,0 +1,69 @@
+import type { Logger } from '../utils/logger.js';
+import type { LLMProvider, ChatMessage, ChatOptions, ChatResponse, LLMAttempt } from './provider.js';
+import { LLMAttemptsExhaustedError } from './errors.js';
+
+export interface FallbackEntry {
+  name: string;
+  provider: LLMProvider;
+}
+
+/**
+ * Tries an ordered list of providers (or models), moving to the next one
+ * when a provider fails outright. Wrap each entry in a RetryingProvider so
+ * transient errors are retried before falling back.
+ */
+export class FallbackProvider implements LLMProvider {
+  private entries: FallbackEntry[];
+  private logger?: Logger;
+
+  constructor(entries: FallbackEntry[], logger?: Logger) {
+    if (entries.length === 0) {
+      throw new Error('FallbackProvider needs at least one provider');
+    }
+    this.entries = entries;
+    this.logger = logger;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    const attempts: LLMAttempt[] = [];
+    const errors: string[] = [];
+
+    for (const [i, entry] of this.entries.entries()) {
+      try {
+        const response = await entry.provider.chat(messages, options);
+        if (i > 0) {
+          this.logger?.warn({ provider: entry.name, failed: errors }, 'LLM answered by fallback provider');
+        }
+        return {
+          ...response,
+          attempts: [...attempts, ...(response.attempts ?? [])],
+          fallback: i > 0,
+        };
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        attempts.push(...(e instanceof LLMAttemptsExhaustedError
+          ? e.attempts
+          : [{ provider: entry.name, attempt: 1, ok: false, error, latencyMs: 0, waitMs: 0 }]));
+        errors.push(`${entry.name}: ${error}`);
+        const next = this.entries[i + 1];
+        if (next) {
+          this.logger?.warn({ provider: entry.name, next: next.name, error }, 'LLM provider failed, falling back');
+        }
+      }
+    }
+
+    throw new LLMAttemptsExhaustedError(`All LLM providers failed: ${errors.join('; ')}`, attempts);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    for (const entry of this.entries) {
+      if (!entry.provider.healthCheck || await entry.provider.healthCheck()) return true;
+    }
+    return false;
+  }
+
+  async listModels(): Promise<string[]> {
+    const primary = this.entries[0]!.provider;
+    return primary.listModels ? primary.listModels() : [];
+  }
+}
@@ -1,26 +1,194 @@
-export type { LLMProvider, LLMConfig } from './provider.js';
+export type {
+  LLMProvider,
+  LLMConfig,
+  ChatMessage,
+  ChatOptions,
+  ResponseFormat,
+  ChatResponse,
+  TokenUsage,
+  LLMAttempt,
+} from './provider.js';
 export { StubProvider } from './provider.js';
 export { ChutesProvider } from './chutes.js';
+export { OpenAICompatibleProvider } from './openai.js';
+export type { OpenAICompatibleConfig, OpenAIJsonMode } from './openai.js';
+export { OllamaProvider } from './ollama.js';
+export type { OllamaConfig, OllamaJsonMode } from './ollama.js';
+export {
+  CassetteProvider,
+  CassetteMismatchError,
+  CASSETTE_MODES,
+  promptKey,
+  diffLines,
+} from './cassette.js';
+export type { CassetteMode, CassetteConfig } from './cassette.js';
+export {
+  LLMRequestError,
+  LLMAttemptsExhaustedError,
+  parseRetryAfter,
+  isRetryableError,
+} from './errors.js';
+export { RetryingProvider, backoffDelay } from './retry.js';
+export type { RetryConfig } from './retry.js';
+export { FallbackProvider } from './fallback.js';
+export type { FallbackEntry } from './fallback.js';
+export { TokenBucket } from './rateLimiter.js';
+export type { TokenBucketConfig } from './rateLimiter.js';
 
-import { ChutesProvider } from './chutes.js';
+import { join } from 'path';
+import type { Logger } from '../utils/logger.js';
+import { ChutesProvider, CHUTES_DEFAULTS } from './chutes.js';
+import { OpenAICompatibleProvider, OPENAI_DEFAULTS } from './openai.js';
+import { OllamaProvider, OLLAMA_DEFAULTS } from './ollama.js';
 import { StubProvider } from './provider.js';
+import { CassetteProvider, CASSETTE_MODES, type CassetteMode } from './cassette.js';
+import { RetryingProvider } from './retry.js';
+import { FallbackProvider } from './fallback.js';
+import { TokenBucket } from './rateLimiter.js';
 import type { LLMProvider, LLMConfig } from './provider.js';
 
+export interface ProviderOptions {
+  /** Cassette name (file under LLM_CASSETTE_DIR) when cassettes are enabled */
+  cassette?: string;
+  /** Receives retry, fallback and rate-limit logs */
+  logger?: Logger;
+}
+
+const PROVIDER_DEFAULTS: Record<string, { model: string; baseUrl: string }> = {
+  chutes: CHUTES_DEFAULTS,
+  openai: OPENAI_DEFAULTS,
+  'openai-compatible': OPENAI_DEFAULTS,
+  llamacpp: OPENAI_DEFAULTS,
+  ollama: OLLAMA_DEFAULTS,
+};
+
+/** Token buckets per provider, shared by every provider created in this process */
+const limiters = new Map<string, TokenBucket>();
+
+/**
+ * Create an LLM provider based on environment configuration.
+ *
+ * Live providers are wrapped with retries (`LLM_MAX_RETRIES`), an optional
+ * rate limiter (`LLM_RATE_LIMIT_RPM`) and the `LLM_FALLBACKS` chain.
+ * `LLM_CASSETTE_MODE` wraps the result in a record/replay cassette;
+ * `LLM_PROVIDER=cassette` replays without any live provider behind it.
+ */
+export function createProvider(
+  config?: Partial<LLMConfig>,
+  options: ProviderOptions = {}
+): LLMProvider {
+  const providerType = (process.env.LLM_PROVIDER || 'chutes').toLowerCase();
+  const cassetteMode = process.env.LLM_CASSETTE_MODE?.toLowerCase()
+    || (providerType === 'cassette' ? 'replay' : undefined);
+
+  const provider = providerType === 'cassette' ? null : createResilientProvider(providerType, config, options.logger);
+  if (!cassetteMode) {
+    return provider!;
+  }
+
+  if (!CASSETTE_MODES.includes(cassetteMode as CassetteMode)) {
+    throw new Error(`Unknown LLM_CASSETTE_MODE "${cassetteMode}" (expected ${CASSETTE_MODES.join(', ')})`);
+  }
+  const dir = process.env.LLM_CASSETTE_DIR || join('tests', 'cassettes');
+  return new CassetteProvider(provider, {
+    mode: cassetteMode as CassetteMode,
+    path: join(dir, `${options.cassette || 'default'}.json`),
+  });
+}
+
+/**
+ * Parse `LLM_FALLBACKS`: comma-separated `provider[:model]` entries, e.g.
+ * `chutes:unsloth/Llama-3.2-1B-Instruct,ollama:qwen2.5:7b`
+ */
+export function parseFallbacks(value: string | undefined): Array<{ provider: string; model?: string }> {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const sep = entry.indexOf(':');
+      return sep === -1
+        ? { provider: entry.toLowerCase() }
+        : { provider: entry.slice(0, sep).toLowerCase(), model: entry.slice(sep + 1) };
+    });
+}
+
+function createResilientProvider(
+  providerType: string,
+  config: Partial<LLMConfig> | undefined,
+  logger?: Logger
+): LLMProvider {
+  const chain = [{ provider: providerType, model: config?.model }, ...parseFallbacks(process.env.LLM_FALLBACKS)];
+  const entries = chain.map(({ provider: type, model }, i) => {
+    // Fallbacks of another provider type get that type's defaults (or <TYPE>_BASE_URL),
+    // not the primary's LLM_MODEL / LLM_BASE_URL
+    const sameType = type === providerType;
+    const defaults = sameType ? undefined : PROVIDER_DEFAULTS[type];
+    const baseUrl = process.env[`${type.toUpperCase().replace(/-/g, '_')}_BASE_URL`]
+      || (sameType ? config?.baseUrl : defaults?.baseUrl);
+    const entryConfig: Partial<LLMConfig> = {
+      ...(sameType ? config : {}),
+      ...(baseUrl ? { baseUrl } : {}),
+      ...(model || defaults ? { model: model || defaults!.model } : {}),
+    };
+    const name = i === 0 ? type : `${type}${model ? `:${model}` : ''}`;
+    return {
+      name,
+      provider: new RetryingProvider(createBaseProvider(type, entryConfig), {
+        name,
+        maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '3', 10),
+        baseDelayMs: parseInt(process.env.LLM_RETRY_BASE_MS || '500', 10),
+        maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_MS || '30000', 10),
+        limiter: rateLimiter(type),
+        logger,
+      }),
+    };
+  });
+
+  return entries.length === 1 ? entries[0]!.provider : new FallbackProvider(entries, logger);
+}
+
 /**
- * Create an LLM provider based on environment configuration
+ * Token bucket for a provider type when `LLM_RATE_LIMIT_RPM` is set. State is
+ * kept under `LLM_RATE_LIMIT_DIR` so Playwright workers share the budget.
  */
-export function createProvider(config?: Partial<LLMConfig>): LLMProvider {
-  const providerType = process.env.LLM_PROVIDER || 'chutes';
-  
-  switch (providerType.toLowerCase()) {
+function rateLimiter(providerType: string): TokenBucket | undefined {
+  const rpm = parseFloat(process.env.LLM_RATE_LIMIT_RPM || '0');
+  if (!(rpm > 0) || providerType === 'stub') return undefined;
+
+  let limiter = limiters.get(providerType);
+  if (!limiter) {
+    const dir = process.env.LLM_RATE_LIMIT_DIR || join('.qacr', 'ratelimit');
+    limiter = new TokenBucket({
+      refillPerSecond: rpm / 60,
+      capacity: Math.max(1, parseInt(process.env.LLM_RATE_LIMIT_BURST || '1', 10)),
+      statePath: join(dir, `${providerType.replace(/[^a-z0-9-]+/g, '-')}.json`),
+    });
+    limiters.set(providerType, limiter);
+  }
+  return limiter;
+}
+
+function createBaseProvider(providerType: string, config?: Partial<LLMConfig>): LLMProvider {
+  switch (providerType) {
     case 'chutes':
       return new ChutesProvider(config);
     
+    case 'openai':
+    case 'openai-compatible':
+    case 'llamacpp':
+      return new OpenAICompatibleProvider(config);
+    
+    case 'ollama':
+      return new OllamaProvider(config);
+    
     case 'stub':
       return new StubProvider();
     
     default:
-      console.warn(`Unknown LLM provider "${providerType}", falling back to Chutes`);
-      return new ChutesProvider(config);
+      throw new Error(
+        `Unknown LLM provider "${providerType}" (expected chutes, openai, llamacpp, ollama, stub or cassette)`
+      );
   }
 }
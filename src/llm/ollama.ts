@@ -0,0 +1,186 @@
+import type {
+  LLMProvider,
+  LLMConfig,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+} from './provider.js';
+import { LLMRequestError, responseError } from './errors.js';
+import { parseJsonEnv } from './openai.js';
+
+/**
+ * - schema: send the request's JSON Schema as `format` (structured outputs);
+ *   plain `"json"` when the request carries no schema
+ * - json: send `format: "json"` so Ollama constrains output to JSON
+ * - none: rely on the prompt alone
+ */
+export type OllamaJsonMode = 'schema' | 'json' | 'none';
+
+export const OLLAMA_DEFAULTS = {
+  model: 'llama3.2',
+  baseUrl: 'http://localhost:11434',
+};
+
+export interface OllamaConfig extends LLMConfig {
+  apiKey?: string;
+  /** Header carrying the API key when Ollama sits behind an authenticating proxy */
+  authHeader?: string;
+  authScheme?: string;
+  /** Extra fields merged into every request body (e.g. `{ "keep_alive": "10m" }`) */
+  extraBody?: Record<string, unknown>;
+  jsonMode?: OllamaJsonMode;
+}
+
+/**
+ * Map the shared LLM_JSON_MODE values onto Ollama's modes
+ */
+function ollamaJsonMode(value: string | undefined): OllamaJsonMode {
+  switch (value) {
+    case 'none':
+      return 'none';
+    case 'json':
+    case 'json_object':
+      return 'json';
+    default:
+      return 'schema';
+  }
+}
+
+interface OllamaChatResponse {
+  model: string;
+  message?: {
+    role: string;
+    content: string;
+  };
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Ollama provider using the native `/api/chat` endpoint
+ *
+ * @see https://github.com/ollama/ollama/blob/main/docs/api.md
+ */
+export class OllamaProvider implements LLMProvider {
+  private config: Required<OllamaConfig>;
+
+  constructor(config: Partial<OllamaConfig> = {}) {
+    this.config = {
+      model: config.model || process.env.LLM_MODEL || OLLAMA_DEFAULTS.model,
+      baseUrl: (config.baseUrl || process.env.LLM_BASE_URL || OLLAMA_DEFAULTS.baseUrl).replace(/\/+$/, ''),
+      temperature: config.temperature ?? parseFloat(process.env.LLM_TEMPERATURE || '0.1'),
+      topP: config.topP ?? parseFloat(process.env.LLM_TOP_P || '0.9'),
+      timeoutMs: config.timeoutMs ?? parseInt(process.env.LLM_TIMEOUT_MS || '60000', 10),
+      apiKey: config.apiKey ?? process.env.LLM_API_KEY ?? '',
+      authHeader: config.authHeader || process.env.LLM_AUTH_HEADER || 'Authorization',
+      authScheme: config.authScheme ?? process.env.LLM_AUTH_SCHEME ?? 'Bearer',
+      extraBody: config.extraBody ?? parseJsonEnv(process.env.LLM_EXTRA_BODY, 'LLM_EXTRA_BODY'),
+      jsonMode: config.jsonMode ?? ollamaJsonMode(process.env.LLM_JSON_MODE),
+    };
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const body: Record<string, unknown> = {
+        model: this.config.model,
+        messages,
+        stream: false,
+        options: {
+          temperature: options.temperature ?? this.config.temperature,
+          top_p: options.topP ?? this.config.topP,
+          num_predict: options.maxTokens,
+        },
+        ...this.config.extraBody,
+      };
+      if (this.config.jsonMode === 'schema' && options.responseFormat) {
+        body.format = options.responseFormat.schema;
+      } else if (this.config.jsonMode !== 'none') {
+        body.format = 'json';
+      }
+
+      const response = await fetch(`${this.config.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.authHeaders(),
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await responseError('Ollama', response);
+      }
+
+      const data = await response.json() as OllamaChatResponse;
+      const promptTokens = data.prompt_eval_count ?? 0;
+      const completionTokens = data.eval_count ?? 0;
+
+      return {
+        content: data.message?.content || '',
+        usage: data.prompt_eval_count !== undefined || data.eval_count !== undefined
+          ? { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+          : undefined,
+        latencyMs: Date.now() - startedAt,
+        finishReason: data.done_reason,
+        model: data.model,
+      };
+    } catch (e) {
+      if (e instanceof Error && e.name === 'AbortError') {
+        throw new LLMRequestError(`Ollama request timed out after ${this.config.timeoutMs}ms`, {
+          timedOut: true,
+        });
+      }
+      throw e;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Check if the Ollama server is reachable
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.config.baseUrl}/api/tags`, {
+        method: 'GET',
+        headers: this.authHeaders(),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List locally pulled models
+   */
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.config.baseUrl}/api/tags`, {
+        method: 'GET',
+        headers: this.authHeaders(),
+      });
+
+      if (!response.ok) return [];
+
+      const data = await response.json() as { models?: Array<{ name: string }> };
+      return data.models?.map(m => m.name) || [];
+    } catch {
+      return [];
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    if (!this.config.apiKey) return {};
+    const value = this.config.authScheme
+      ? `${this.config.authScheme} ${this.config.apiKey}`
+      : this.config.apiKey;
+    return { [this.config.authHeader]: value };
+  }
+}
@@ -0,0 +1,227 @@
+import type {
+  LLMProvider,
+  LLMConfig,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+} from './provider.js';
+import { LLMRequestError, responseError } from './errors.js';
+
+/**
+ * How to ask the server for JSON output
+ * - json_schema: send the request's schema as a `json_schema` response format
+ *   (constrained decoding on OpenAI, vLLM, llama.cpp); `json_object` when the
+ *   request carries no schema
+ * - json_object: send `response_format: { type: 'json_object' }`
+ * - none: rely on the prompt alone (servers that reject response_format)
+ */
+export type OpenAIJsonMode = 'json_schema' | 'json_object' | 'none';
+
+export interface OpenAICompatibleConfig extends LLMConfig {
+  /** Provider name used in error messages */
+  name?: string;
+  apiKey?: string;
+  /** Header carrying the API key (default `Authorization`) */
+  authHeader?: string;
+  /** Scheme prefixed to the key (default `Bearer`; empty string sends the raw key) */
+  authScheme?: string;
+  /** Extra fields merged into every request body (e.g. `{ "repeat_penalty": 1.1 }`) */
+  extraBody?: Record<string, unknown>;
+  jsonMode?: OpenAIJsonMode;
+}
+
+interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export const OPENAI_DEFAULTS = {
+  model: 'default',
+  baseUrl: 'http://localhost:8080',
+};
+
+/**
+ * Parse a JSON object from an environment variable, ignoring bad input
+ */
+export function parseJsonEnv(value: string | undefined, name: string): Record<string, unknown> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through to warning
+  }
+  console.warn(`⚠️  ${name} is not a JSON object, ignoring it`);
+  return {};
+}
+
+/**
+ * Join a base URL and an OpenAI API path, tolerating a base that already ends in /v1
+ */
+export function apiUrl(baseUrl: string, path: string): string {
+  const base = baseUrl.replace(/\/+$/, '');
+  return base.endsWith('/v1') ? `${base}${path}` : `${base}/v1${path}`;
+}
+
+/**
+ * Generic provider for OpenAI-compatible chat completion servers
+ * (OpenAI, vLLM, llama.cpp `llama-server`, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  protected config: Required<OpenAICompatibleConfig>;
+
+  constructor(config: Partial<OpenAICompatibleConfig> = {}) {
+    this.config = {
+      name: config.name || 'OpenAI-compatible',
+      model: config.model || process.env.LLM_MODEL || OPENAI_DEFAULTS.model,
+      baseUrl: config.baseUrl || process.env.LLM_BASE_URL || OPENAI_DEFAULTS.baseUrl,
+      temperature: config.temperature ?? parseFloat(process.env.LLM_TEMPERATURE || '0.1'),
+      topP: config.topP ?? parseFloat(process.env.LLM_TOP_P || '0.9'),
+      timeoutMs: config.timeoutMs ?? parseInt(process.env.LLM_TIMEOUT_MS || '60000', 10),
+      apiKey: config.apiKey ?? process.env.LLM_API_KEY ?? '',
+      authHeader: config.authHeader || process.env.LLM_AUTH_HEADER || 'Authorization',
+      authScheme: config.authScheme ?? process.env.LLM_AUTH_SCHEME ?? 'Bearer',
+      extraBody: config.extraBody ?? parseJsonEnv(process.env.LLM_EXTRA_BODY, 'LLM_EXTRA_BODY'),
+      jsonMode: config.jsonMode ?? (process.env.LLM_JSON_MODE as OpenAIJsonMode | undefined) ?? 'json_schema',
+    };
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    const startedAt = Date.now();
+    const response = await this.chatCompletion(messages, options);
+    const choice = response.choices[0];
+
+    return {
+      content: choice?.message?.content || '',
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+      latencyMs: Date.now() - startedAt,
+      finishReason: choice?.finish_reason,
+      model: response.model,
+    };
+  }
+
+  /**
+   * OpenAI-compatible chat completion
+   */
+  private async chatCompletion(
+    messages: ChatMessage[],
+    options: ChatOptions
+  ): Promise<ChatCompletionResponse> {
+    const url = apiUrl(this.config.baseUrl, '/chat/completions');
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...this.authHeaders(),
+      };
+
+      const body: Record<string, unknown> = {
+        model: this.config.model,
+        messages,
+        temperature: options.temperature ?? this.config.temperature,
+        top_p: options.topP ?? this.config.topP,
+        max_tokens: options.maxTokens,
+        ...this.config.extraBody,
+      };
+      const format = options.responseFormat;
+      if (this.config.jsonMode === 'json_schema' && format) {
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: { name: format.name, schema: format.schema, strict: format.strict ?? false },
+        };
+      } else if (this.config.jsonMode !== 'none') {
+        body.response_format = { type: 'json_object' }; // Request JSON output
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await responseError(this.config.name, response);
+      }
+
+      return await response.json() as ChatCompletionResponse;
+    } catch (e) {
+      if (e instanceof Error && e.name === 'AbortError') {
+        throw new LLMRequestError(`${this.config.name} request timed out after ${this.config.timeoutMs}ms`, {
+          timedOut: true,
+        });
+      }
+      throw e;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Check if the API is reachable
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(apiUrl(this.config.baseUrl, '/models'), {
+        method: 'GET',
+        headers: this.authHeaders(),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List available models
+   */
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(apiUrl(this.config.baseUrl, '/models'), {
+        method: 'GET',
+        headers: this.authHeaders(),
+      });
+
+      if (!response.ok) return [];
+
+      const data = await response.json() as { data: Array<{ id: string }> };
+      return data.data?.map(m => m.id) || [];
+    } catch {
+      return [];
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    if (!this.config.apiKey) return {};
+    const value = this.config.authScheme
+      ? `${this.config.authScheme} ${this.config.apiKey}`
+      : this.config.apiKey;
+    return { [this.config.authHeader]: value };
+  }
+}
@@ -1,13 +1,94 @@
+/**
+ * A single chat message sent to the LLM
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Per-request sampling overrides (fall back to provider config when omitted)
+ */
+export interface ChatOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  /** JSON Schema the reply must match, for providers that support constrained output */
+  responseFormat?: ResponseFormat;
+}
+
+/**
+ * A named JSON Schema for structured output
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+  /** Schema follows strict structured-output rules (all keys required, no extras) */
+  strict?: boolean;
+}
+
+/**
+ * Token usage reported by the provider
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Result of a chat completion
+ */
+export interface ChatResponse {
+  /** Raw assistant message content (should be JSON) */
+  content: string;
+  usage?: TokenUsage;
+  /** Wall-clock time of the request in milliseconds */
+  latencyMs: number;
+  /** Provider finish reason (e.g. "stop", "length") */
+  finishReason?: string;
+  model?: string;
+  /** Requests made to produce this response (retries and fallbacks included) */
+  attempts?: LLMAttempt[];
+  /** True when a fallback provider answered instead of the primary */
+  fallback?: boolean;
+}
+
+/**
+ * One request to an LLM API, successful or not
+ */
+export interface LLMAttempt {
+  provider: string;
+  /** 1-based attempt number against this provider */
+  attempt: number;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  latencyMs: number;
+  /** Time spent waiting (backoff or rate limiter) before this attempt */
+  waitMs: number;
+}
+
 /**
  * LLM Provider interface for generating actions
  */
 export interface LLMProvider {
   /**
-   * Generate an action response from the given prompt
-   * @param prompt The full prompt including system and user messages
-   * @returns The raw LLM response string (should be JSON)
+   * Run a chat completion over the given messages
+   * @param messages Ordered system/user/assistant messages
+   * @param options Optional sampling overrides
+   */
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse>;
+
+  /**
+   * Check if the backing API is reachable (optional)
+   */
+  healthCheck?(): Promise<boolean>;
+
+  /**
+   * List models the backing API serves (optional)
    */
-  generateAction(prompt: string): Promise<string>;
+  listModels?(): Promise<string[]>;
 }
 
 /**
@@ -32,15 +113,25 @@ export class StubProvider implements LLMProvider {
     this.responses = responses;
   }
 
-  async generateAction(_prompt: string): Promise<string> {
+  async chat(_messages: ChatMessage[], _options?: ChatOptions): Promise<ChatResponse> {
     if (this.index >= this.responses.length) {
       // Default fail action when no more responses
-      return JSON.stringify({
-        thinking: 'No more stub responses',
-        action: { type: 'fail', reason: 'Stub exhausted' },
-      });
+      return {
+        content: JSON.stringify({
+          thinking: 'No more stub responses',
+          action: { type: 'fail', reason: 'Stub exhausted' },
+        }),
+        latencyMs: 0,
+        finishReason: 'stop',
+        model: 'stub',
+      };
     }
-    return this.responses[this.index++];
+    return {
+      content: this.responses[this.index++],
+      latencyMs: 0,
+      finishReason: 'stop',
+      model: 'stub',
+    };
   }
 
   /**
@@ -0,0 +1,140 @@
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+export interface TokenBucketConfig {
+  /** Tokens added per second */
+  refillPerSecond: number;
+  /** Bucket size, i.e. how many requests may burst at once */
+  capacity: number;
+  /**
+   * JSON file holding the bucket state. When set, every process using the
+   * same file (e.g. Playwright workers) draws from one shared bucket.
+   */
+  statePath?: string;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+const LOCK_STALE_MS = 5000;
+const LOCK_RETRY_MS = 10;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Token-bucket rate limiter.
+ *
+ * In-memory by default; with `statePath` the state lives on disk behind an
+ * exclusive lock file so separate worker processes share one budget.
+ */
+export class TokenBucket {
+  private config: TokenBucketConfig;
+  private state: BucketState;
+
+  constructor(config: TokenBucketConfig) {
+    if (config.refillPerSecond <= 0 || config.capacity < 1) {
+      throw new Error('TokenBucket needs refillPerSecond > 0 and capacity >= 1');
+    }
+    this.config = config;
+    this.state = { tokens: config.capacity, updatedAt: Date.now() };
+  }
+
+  /**
+   * Wait until a token is available and take it
+   * @returns Milliseconds spent waiting
+   */
+  async acquire(): Promise<number> {
+    const startedAt = Date.now();
+    for (;;) {
+      const waitMs = await this.tryTake();
+      if (waitMs === 0) return Date.now() - startedAt;
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Take a token if one is available; otherwise return how long until one is
+   */
+  private async tryTake(): Promise<number> {
+    const release = await this.lock();
+    try {
+      const state = this.refill(this.read(), Date.now());
+      if (state.tokens >= 1) {
+        state.tokens -= 1;
+        this.write(state);
+        return 0;
+      }
+      this.write(state);
+      return Math.max(1, Math.ceil(((1 - state.tokens) / this.config.refillPerSecond) * 1000));
+    } finally {
+      release();
+    }
+  }
+
+  private refill(state: BucketState, now: number): BucketState {
+    const elapsed = Math.max(0, now - state.updatedAt) / 1000;
+    return {
+      tokens: Math.min(this.config.capacity, state.tokens + elapsed * this.config.refillPerSecond),
+      updatedAt: now,
+    };
+  }
+
+  private read(): BucketState {
+    const path = this.config.statePath;
+    if (!path) return this.state;
+    if (!existsSync(path)) return { tokens: this.config.capacity, updatedAt: Date.now() };
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8')) as Partial<BucketState>;
+      if (typeof parsed.tokens === 'number' && typeof parsed.updatedAt === 'number') {
+        return { tokens: parsed.tokens, updatedAt: parsed.updatedAt };
+      }
+    } catch {
+      // Corrupt state is treated as a full bucket
+    }
+    return { tokens: this.config.capacity, updatedAt: Date.now() };
+  }
+
+  private write(state: BucketState): void {
+    this.state = state;
+    if (this.config.statePath) {
+      writeFileSync(this.config.statePath, JSON.stringify(state), 'utf-8');
+    }
+  }
+
+  /**
+   * Exclusive lock on the state file; a no-op for in-memory buckets
+   */
+  private async lock(): Promise<() => void> {
+    const path = this.config.statePath;
+    if (!path) return () => {};
+
+    const lockPath = `${path}.lock`;
+    mkdirSync(dirname(path), { recursive: true });
+    for (;;) {
+      try {
+        const fd = openSync(lockPath, 'wx');
+        closeSync(fd);
+        return () => {
+          try {
+            unlinkSync(lockPath);
+          } catch {
+            // Already removed as stale by another process
+          }
+        };
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+        // A crashed holder must not block everyone forever
+        try {
+          if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) unlinkSync(lockPath);
+        } catch {
+          // Lock vanished between checks
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import type { Logger } from '../utils/logger.js';
+import type { LLMProvider, ChatMessage, ChatOptions, ChatResponse, LLMAttempt } from './provider.js';
+import { LLMAttemptsExhaustedError, LLMRequestError, isRetryableError } from './errors.js';
+import type { TokenBucket } from './rateLimiter.js';
+
+export interface RetryConfig {
+  /** Name used in logs and attempt metrics */
+  name: string;
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles each time */
+  baseDelayMs: number;
+  /** Upper bound on a single backoff; a longer Retry-After gives up instead */
+  maxDelayMs: number;
+  /** Shared rate limiter consulted before every attempt */
+  limiter?: TokenBucket;
+  logger?: Logger;
+}
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  name: 'llm',
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter: a random delay in [half, full] of base * 2^(retry-1)
+ */
+export function backoffDelay(retry: number, baseDelayMs: number, maxDelayMs: number, random = Math.random): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Wraps a provider with rate limiting and retries on 429, 5xx, timeouts
+ * and network failures, honouring `Retry-After`.
+ */
+export class RetryingProvider implements LLMProvider {
+  private inner: LLMProvider;
+  private config: RetryConfig;
+
+  constructor(inner: LLMProvider, config: Partial<RetryConfig> = {}) {
+    this.inner = inner;
+    this.config = { ...DEFAULT_RETRY_CONFIG, ...config };
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    const { name, maxRetries, logger } = this.config;
+    const attempts: LLMAttempt[] = [];
+    let waitMs = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      if (this.config.limiter) {
+        waitMs += await this.config.limiter.acquire();
+      }
+
+      const startedAt = Date.now();
+      try {
+        const response = await this.inner.chat(messages, options);
+        attempts.push({ provider: name, attempt, ok: true, latencyMs: Date.now() - startedAt, waitMs });
+        logger?.debug({ provider: name, attempt, waitMs }, 'LLM attempt succeeded');
+        return { ...response, attempts };
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        const status = e instanceof LLMRequestError ? e.status : undefined;
+        attempts.push({ provider: name, attempt, ok: false, status, error, latencyMs: Date.now() - startedAt, waitMs });
+
+        const retryAfterMs = e instanceof LLMRequestError ? e.retryAfterMs : undefined;
+        const giveUp =
+          !isRetryableError(e) ||
+          attempt > maxRetries ||
+          (retryAfterMs !== undefined && retryAfterMs > this.config.maxDelayMs);
+        if (giveUp) {
+          logger?.warn({ provider: name, attempt, status, error }, 'LLM attempt failed, giving up');
+          throw new LLMAttemptsExhaustedError(
+            `${name}: ${error} (after ${attempt} attempt${attempt === 1 ? '' : 's'})`,
+            attempts
+          );
+        }
+
+        waitMs = retryAfterMs ?? backoffDelay(attempt, this.config.baseDelayMs, this.config.maxDelayMs);
+        logger?.warn({ provider: name, attempt, status, error, retryInMs: waitMs }, 'LLM attempt failed, retrying');
+        await sleep(waitMs);
+      }
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.inner.healthCheck ? this.inner.healthCheck() : true;
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.inner.listModels ? this.inner.listModels() : [];
+  }
+}
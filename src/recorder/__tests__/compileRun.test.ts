@@ -0,0 +1,259 @@
+/**
+ * Unit tests for the agent run compiler.
+ *
+ * Run via:  npx tsx --test src/recorder/__tests__/compileRun.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileAgentRun, generateActionCode, textToCode } from '../compileRun.js';
+import type { AgentRun } from '../schemas.js';
+
+const run: AgentRun = {
+  testCase: {
+    id: 'example-login',
+    name: 'Login to example',
+    baseUrl: 'https://example.com/login',
+  },
+  recordedAt: '2026-01-01T00:00:00.000Z',
+  steps: [
+    {
+      goal: 'Enter the password ${ENV.TEST_PASSWORD} and log in.',
+      expect: [{ type: 'url_contains', value: '/home' }],
+      actions: [
+        {
+          type: 'fill',
+          locator: { kind: 'label', text: 'Password' },
+          text: '{{secret:TEST_PASSWORD}}',
+        },
+        {
+          type: 'click',
+          locator: { kind: 'role', role: 'button', name: "Let's go", exact: true },
+        },
+      ],
+    },
+  ],
+};
+
+describe('textToCode', () => {
+  it('keeps plain text as a string literal', () => {
+    assert.equal(textToCode("it's"), "'it\\'s'");
+  });
+
+  it('turns secret placeholders into required environment variables', () => {
+    assert.equal(
+      textToCode('pre-{{secret:PASSWORD}}-`x`'),
+      "`pre-${requireEnv('PASSWORD')}-\\`x\\``",
+    );
+  });
+});
+
+describe('generateActionCode', () => {
+  it('uses the same locator strategy the agent used', () => {
+    assert.equal(
+      generateActionCode({
+        type: 'check',
+        locator: { kind: 'testid', id: 'remember' },
+        checked: false,
+      }),
+      "await page.getByTestId('remember').first().uncheck();",
+    );
+  });
+
+  it('scopes and narrows locators with within, hasText and nth', () => {
+    assert.equal(
+      generateActionCode({
+        type: 'click',
+        locator: {
+          kind: 'role',
+          role: 'button',
+          name: 'Edit',
+          nth: 1,
+          within: { kind: 'css', selector: 'table', hasText: 'Invoice 42' },
+        },
+      }),
+      "await page.locator('table').filter({ hasText: 'Invoice 42' }).getByRole('button', { name: 'Edit' }).nth(1).first().click();",
+    );
+  });
+
+  it('generates filters with nested locators and last()', () => {
+    assert.equal(
+      generateActionCode({
+        type: 'fill',
+        locator: {
+          kind: 'placeholder',
+          text: 'Qty',
+          within: { kind: 'xpath', expression: '//li', filter: { has: { kind: 'title', text: 'Pen' }, hasNotText: 'Sold out' } },
+          last: true,
+        },
+        text: '2',
+      }),
+      "await page.locator('xpath=//li').filter({ has: page.getByTitle('Pen'), hasNotText: 'Sold out' })" +
+        ".getByPlaceholder('Qty').last().first().fill('2');",
+    );
+  });
+
+  it('generates pointer and scroll actions', () => {
+    const file = { kind: 'text' as const, text: 'notes.txt', exact: true };
+    assert.equal(generateActionCode({ type: 'dblclick', locator: file }), "await page.getByText('notes.txt', { exact: true }).first().dblclick();");
+    assert.equal(
+      generateActionCode({ type: 'rightclick', locator: file }),
+      "await page.getByText('notes.txt', { exact: true }).first().click({ button: 'right' });",
+    );
+    assert.equal(
+      generateActionCode({ type: 'drag', source: file, target: { kind: 'testid', id: 'trash' } }),
+      "await page.getByText('notes.txt', { exact: true }).first().dragTo(page.getByTestId('trash').first());",
+    );
+    assert.equal(
+      generateActionCode({ type: 'scroll', direction: 'up' }),
+      "await page.locator(':root').evaluate((el) => el.scrollBy(0, -600));",
+    );
+    assert.equal(
+      generateActionCode({ type: 'scroll', locator: file }),
+      "await page.getByText('notes.txt', { exact: true }).first().scrollIntoViewIfNeeded();",
+    );
+  });
+
+  it('looks frames up by name or URL', () => {
+    assert.equal(
+      generateActionCode({
+        type: 'click',
+        locator: { kind: 'role', role: 'button', name: 'Pay', frame: 'checkout.html', within: { kind: 'css', selector: 'form' } },
+      }),
+      "await page.frameLocator('iframe[name=\"checkout.html\"], iframe[id=\"checkout.html\"], iframe[src*=\"checkout.html\"]').first()" +
+        ".locator('form').getByRole('button', { name: 'Pay' }).first().click();",
+    );
+    assert.equal(
+      generateActionCode({ type: 'fill', locator: { kind: 'label', text: 'Card number', frame: 'about:srcdoc' }, text: '4242' }),
+      "await page.frameLocator('iframe[srcdoc]').first().getByLabel('Card number').first().fill('4242');",
+    );
+    assert.throws(
+      () => generateActionCode({ type: 'click', locator: { kind: 'text', text: 'Pay', frame: '2' } }),
+      /Cannot generate code for frame index "2"/,
+    );
+  });
+
+  it('uploads files from the fixtures folder', () => {
+    const code = generateActionCode(
+      { type: 'upload', locator: { kind: 'label', text: 'Invoices' }, files: ['invoices/march.csv'] },
+      'testcases/fixtures',
+    );
+    assert.match(code, /const control = page\.getByLabel\('Invoices'\)\.first\(\);/);
+    assert.match(code, /const files = \['testcases\/fixtures\/invoices\/march\.csv'\];/);
+    assert.match(code, /if \(await control\.evaluate\(\(el\) => el\.matches\('input\[type=file\]'\)\)\) \{\n {4}await control\.setInputFiles\(files\);/);
+  });
+
+  it('uploads through a file chooser when the control is not a file input', () => {
+    const code = generateActionCode({
+      type: 'upload',
+      locator: { kind: 'role', role: 'button', name: 'Choose avatar' },
+      files: ['avatar.txt'],
+    });
+    assert.match(code, /const control = page\.getByRole\('button', \{ name: 'Choose avatar' \}\)\.first\(\);/);
+    assert.match(
+      code,
+      /\} else \{\n {4}const \[chooser\] = await Promise\.all\(\[page\.waitForEvent\('filechooser'\), control\.click\(\)\]\);\n {4}await chooser\.setFiles\(files\);\n {2}\}\n\}$/,
+    );
+  });
+});
+
+describe('compileAgentRun', () => {
+  const spec = compileAgentRun(run);
+
+  it('maps each YAML step to a test.step block', () => {
+    assert.match(spec, /^\/\/ DO NOT EDIT/);
+    assert.match(spec, /test\('Login to example', async \(\{ page \}\) => \{/);
+    assert.match(spec, /await test\.step\('step 1: Enter the password \$\{ENV\.TEST_PASSWORD\} and log in\.'/);
+  });
+
+  it('never bakes secret values into the spec', () => {
+    assert.match(spec, /fill\(`\$\{requireEnv\('TEST_PASSWORD'\)\}`\)/);
+  });
+
+  it('fails the spec when a variable is not set', () => {
+    assert.match(spec, /throw new Error\(`Missing environment variable \$\{name\}`\)/);
+    const plain = compileAgentRun({ ...run, steps: run.steps.map((step) => ({ ...step, actions: [] })) });
+    assert.doesNotMatch(plain, /requireEnv/);
+  });
+
+  it('emits step expectations after the actions', () => {
+    const clickAt = spec.indexOf("getByRole('button', { name: 'Let\\'s go', exact: true })");
+    const expectAt = spec.indexOf("toHaveURL(new RegExp('/home'))");
+    assert.ok(clickAt > 0 && expectAt > clickAt);
+  });
+
+  it('is deterministic', () => {
+    assert.equal(compileAgentRun(run), spec);
+  });
+
+  it('follows tabs and checks expectations in the tab they target', () => {
+    assert.doesNotMatch(spec, /findTab/);
+    const signIn = compileAgentRun({
+      ...run,
+      steps: [{
+        goal: 'Sign in with Example',
+        followedTabs: 1,
+        expect: [{ type: 'visible_text', value: 'Signed in', tab: 0 }],
+        actions: [
+          { type: 'click', locator: { kind: 'role', role: 'button', name: 'Sign in with Example' } },
+          { type: 'switch_tab', tab: 0 },
+          { type: 'close_tab', tab: 1 },
+        ],
+      }],
+    });
+    assert.match(signIn, /import \{ test, expect, type Page \} from '@playwright\/test';/);
+    assert.match(signIn, /page\.context\(\)\.on\('page', \(opened\) => \{\n {4}track\(opened\);\n {4}page = opened;/);
+    assert.match(signIn, /page = page\.context\(\)\.pages\(\)\[0\]!;\n\s+await page\.bringToFront\(\);/);
+    assert.match(signIn, /await page\.context\(\)\.pages\(\)\[1\]!\.close\(\);/);
+    assert.match(signIn, /\}\)\(await findTab\(page, 0\)\);/);
+  });
+
+  it('collects downloads only when a step checks them', () => {
+    assert.doesNotMatch(spec, /page\.on\('download'/);
+    const exported = compileAgentRun({
+      ...run,
+      steps: [{
+        goal: 'Export the report',
+        expect: [
+          { type: 'download_name_matches', value: '^report-.*\\.csv$' },
+          { type: 'download_contains', value: 'Total' },
+        ],
+        actions: [{ type: 'click', locator: { kind: 'role', role: 'button', name: 'Export' } }],
+      }],
+    });
+    assert.match(exported, /^import \{ readFileSync \} from 'fs';$/m);
+    assert.match(exported, /page\.on\('download'/);
+    assert.match(exported, /toContainEqual\(expect\.stringMatching\(new RegExp\('\^report-\.\*\\\\\.csv\$'\)\)\)/);
+    assert.match(exported, /readFileSync\(d\.path, 'utf-8'\)\.includes\('Total'\)/);
+  });
+
+  it('answers dialogs the way the agent did', () => {
+    assert.doesNotMatch(spec, /'dialog'/);
+    const deleted = compileAgentRun({
+      ...run,
+      steps: [{
+        goal: 'Delete the draft and name the copy',
+        expect: [{ type: 'dialog_shown', value: 'Delete this draft?' }],
+        actions: [
+          { type: 'click', locator: { kind: 'role', role: 'button', name: 'Delete' } },
+          { type: 'dialog', accept: true },
+          { type: 'click', locator: { kind: 'role', role: 'button', name: 'Duplicate' } },
+          { type: 'dialog', accept: true, text: 'Copy of {{secret:DRAFT_NAME}}' },
+        ],
+      }],
+    });
+    assert.match(deleted, /any others are dismissed/);
+    assert.match(deleted, /\{ accept: true \},\n {4}\{ accept: true, text: `Copy of \$\{requireEnv\('DRAFT_NAME'\)\}` \},/);
+    assert.match(deleted, /function requireEnv\(name: string\): string \{\n.*\n {2}if \(value === undefined\) throw new Error/);
+    assert.match(deleted, /dialogAnswers\.shift\(\) \?\? \{ accept: false \}/);
+    assert.match(deleted, /dialogs\.some\(\(message\) => message\.includes\('Delete this draft\?'\)\)/);
+    // The handler answers; the dialog action itself leaves only a note
+    assert.match(deleted, /\/\/ dialog accepted by the dialog handler/);
+  });
+
+  it('accepts every dialog under the accept policy', () => {
+    const accepted = compileAgentRun({ ...run, testCase: { ...run.testCase, dialogs: 'accept' } });
+    assert.match(accepted, /const dialogAnswers: Array<\{ accept: boolean; text\?: string \}> = \[\];/);
+    assert.match(accepted, /dialogAnswers\.shift\(\) \?\? \{ accept: true \}/);
+  });
+});
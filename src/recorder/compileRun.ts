@@ -0,0 +1,529 @@
+#!/usr/bin/env tsx
+/**
+ * Compiler: green agent run → standalone Playwright Test spec.
+ *
+ * A passing `npm test` run saves each test case's executed actions to
+ * `.qacr/runs/<test-case-id>.json`. This turns those actions and the YAML
+ * step `expect` lists into a plain Playwright spec that needs no LLM:
+ *   tests/recordings/<test-case-id>.agent.spec.ts
+ *
+ * Usage:  npm run compile:run -- [--run <path|id>] [--out <dir>]
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+import fg from 'fast-glob';
+import { DEFAULT_SCROLL_AMOUNT, type Action } from '../agent/actionSchema.js';
+import type { StepResult, TestCase } from '../agent/runner.js';
+import { AgentRunSchema, type AgentRun, type AgentRunExpectation } from './schemas.js';
+import { escapeRegex, escapeString, locatorSpecToCode } from './selectors.js';
+
+/* -------------------------------------------------------------------------- */
+/*  Config                                                                     */
+/* -------------------------------------------------------------------------- */
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+export const RUNS_DIR = join(ROOT, '.qacr', 'runs');
+const OUTPUT_DIR = join(ROOT, 'tests', 'recordings');
+
+export interface CompileOptions {
+  run?: string;
+  out?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+function sanitizeFilename(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+function indent(code: string, level: number): string {
+  const pad = '  '.repeat(level);
+  return code
+    .split('\n')
+    .map((line) => (line.trim() ? pad + line : ''))
+    .join('\n');
+}
+
+function summarizeParseIssues(
+  issues: Array<{ path: (string | number)[]; message: string }>,
+): string {
+  return issues
+    .slice(0, 3)
+    .map((issue) => {
+      const path = issue.path.length ? issue.path.join('.') : '(root)';
+      return `${path}: ${issue.message}`;
+    })
+    .join('; ');
+}
+
+const VARIABLE_REF_RE = /\{\{secret:(\w+)\}\}|\$\{ENV\.(\w+)\}/g;
+
+/**
+ * String literal for action text. Secret placeholders and `${ENV.X}`
+ * references become `requireEnv()` lookups so no value is baked in, and a
+ * spec run without the variable fails instead of typing an empty string.
+ */
+export function textToCode(text: string): string {
+  if (!text.match(VARIABLE_REF_RE)) {
+    return `'${escapeString(text)}'`;
+  }
+  let out = '';
+  let last = 0;
+  for (const match of text.matchAll(VARIABLE_REF_RE)) {
+    const literal = text.slice(last, match.index);
+    out += literal.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+    out += `\${requireEnv('${match[1] ?? match[2]}')}`;
+    last = match.index! + match[0].length;
+  }
+  out += text.slice(last).replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  return `\`${out}\``;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Code generation                                                            */
+/* -------------------------------------------------------------------------- */
+
+function generateExpectationCode(exp: AgentRunExpectation): string {
+  if (exp.tab !== undefined) {
+    // Shadow `page` with the tab the expectation targets
+    const tab = typeof exp.tab === 'number' ? String(exp.tab) : `'${escapeString(exp.tab)}'`;
+    const code = generateExpectationCode({ ...exp, tab: undefined });
+    return `await (async (page: Page) => {\n${indent(code, 1)}\n})(await findTab(page, ${tab}));`;
+  }
+  switch (exp.type) {
+    case 'url_contains':
+      return `await expect(page).toHaveURL(new RegExp('${escapeString(escapeRegex(exp.value))}'));`;
+    case 'visible_text':
+      return `await expect(page.getByText('${escapeString(exp.value)}', { exact: false }).first()).toBeVisible();`;
+    case 'locator_visible': {
+      const locCode = exp.locator
+        ? locatorSpecToCode(exp.locator)
+        : `page.getByText('${escapeString(exp.value)}', { exact: false })`;
+      return `await expect(${locCode}.first()).toBeVisible();`;
+    }
+    case 'download_name_matches':
+      return `await expect.poll(() => downloads.map((d) => d.name)).toContainEqual(expect.stringMatching(new RegExp('${escapeString(exp.value)}')));`;
+    case 'download_contains':
+      return `await expect.poll(() => downloads.some((d) => readFileSync(d.path, 'utf-8').includes('${escapeString(exp.value)}'))).toBe(true);`;
+    case 'dialog_shown':
+      return `await expect.poll(() => dialogs.some((message) => message.includes('${escapeString(exp.value)}'))).toBe(true);`;
+    default:
+      return `// Unknown expectation type: ${(exp as AgentRunExpectation).type}`;
+  }
+}
+
+/**
+ * Code for one action. `fixturesDir` is where upload files live, relative to
+ * the directory the spec runs from.
+ */
+export function generateActionCode(action: Action, fixturesDir?: string): string {
+  switch (action.type) {
+    case 'click':
+      return `await ${locatorSpecToCode(action.locator)}.first().click();`;
+    case 'fill':
+      return `await ${locatorSpecToCode(action.locator)}.first().fill(${textToCode(action.text)});`;
+    case 'press':
+      return action.locator
+        ? `await ${locatorSpecToCode(action.locator)}.first().press(${textToCode(action.key)});`
+        : `await page.keyboard.press(${textToCode(action.key)});`;
+    case 'dblclick':
+      return `await ${locatorSpecToCode(action.locator)}.first().dblclick();`;
+    case 'rightclick':
+      return `await ${locatorSpecToCode(action.locator)}.first().click({ button: 'right' });`;
+    case 'hover':
+      return `await ${locatorSpecToCode(action.locator)}.first().hover();`;
+    case 'drag':
+      return `await ${locatorSpecToCode(action.source)}.first().dragTo(${locatorSpecToCode(action.target)}.first());`;
+    case 'scroll': {
+      if (!action.direction) {
+        return action.locator
+          ? `await ${locatorSpecToCode(action.locator)}.first().scrollIntoViewIfNeeded();`
+          : '// scroll without a direction or locator';
+      }
+      const amount = action.amount ?? DEFAULT_SCROLL_AMOUNT;
+      const sign = action.direction === 'up' || action.direction === 'left' ? -1 : 1;
+      const [dx, dy] = action.direction === 'up' || action.direction === 'down' ? [0, sign * amount] : [sign * amount, 0];
+      const scroller = action.locator ? `${locatorSpecToCode(action.locator)}.first()` : `page.locator(':root')`;
+      return `await ${scroller}.evaluate((el) => el.scrollBy(${dx}, ${dy}));`;
+    }
+    case 'fill_form':
+      return action.fields
+        .map((field) => {
+          const locator = locatorSpecToCode({ kind: 'label', text: field.label, frame: action.frame });
+          return `await ${locator}.first().fill(${textToCode(field.value)});`;
+        })
+        .join('\n');
+    case 'select':
+      return `await ${locatorSpecToCode(action.locator)}.first().selectOption('${escapeString(action.value)}');`;
+    case 'check':
+      return `await ${locatorSpecToCode(action.locator)}.first().${action.checked ? 'check' : 'uncheck'}();`;
+    case 'upload': {
+      const files = action.files.map((file) => `'${escapeString(fixturesDir ? `${fixturesDir}/${file}` : file)}'`);
+      // Same branch as the runner: buttons and drop zones open a file chooser
+      return [
+        '{',
+        `  const control = ${locatorSpecToCode(action.locator)}.first();`,
+        `  const files = [${files.join(', ')}];`,
+        "  if (await control.evaluate((el) => el.matches('input[type=file]'))) {",
+        '    await control.setInputFiles(files);',
+        '  } else {',
+        "    const [chooser] = await Promise.all([page.waitForEvent('filechooser'), control.click()]);",
+        '    await chooser.setFiles(files);',
+        '  }',
+        '}',
+      ].join('\n');
+    }
+    case 'switch_tab':
+      return `page = page.context().pages()[${action.tab}]!;\nawait page.bringToFront();`;
+    case 'close_tab':
+      return action.tab === undefined
+        ? 'await page.close();'
+        : `await page.context().pages()[${action.tab}]!.close();`;
+    case 'dialog':
+      // Dialogs block the action that raised them, so the handler answers them
+      return `// dialog ${action.accept ? 'accepted' : 'dismissed'} by the dialog handler`;
+    case 'wait':
+      return `await page.waitForTimeout(${action.ms});`;
+    case 'goto':
+      return `await page.goto('${escapeString(action.url)}');\ntry { await page.waitForLoadState('domcontentloaded'); } catch { /* timeout OK */ }`;
+    case 'assert':
+      return generateExpectationCode({
+        type: action.assertType,
+        value: action.value,
+        locator: action.locator,
+        tab: action.tab,
+      });
+    case 'fail':
+      return `// Agent gave up: ${action.reason.replace(/\n/g, ' ')}`;
+    default:
+      return `// Unsupported action type: ${(action as Action).type}`;
+  }
+}
+
+/**
+ * Whether any step checks downloads, so the spec must collect them
+ */
+function usesDownloads(run: AgentRun): boolean {
+  const isDownload = (type: string) => type.startsWith('download_');
+  return run.steps.some(
+    (step) =>
+      step.expect.some((exp) => isDownload(exp.type)) ||
+      step.actions.some((action) => action.type === 'assert' && isDownload(action.assertType)),
+  );
+}
+
+/**
+ * Whether the spec has to follow the active tab the way the runner did
+ */
+function usesTabs(run: AgentRun): boolean {
+  return run.steps.some(
+    (step) =>
+      (step.followedTabs ?? 0) > 0 ||
+      step.expect.some((exp) => exp.tab !== undefined) ||
+      step.actions.some(
+        (action) =>
+          action.type === 'switch_tab' || action.type === 'close_tab' || (action.type === 'assert' && action.tab !== undefined),
+      ),
+  );
+}
+
+/**
+ * Whether the spec needs a dialog handler: to answer dialogs as the agent
+ * or the test case's policy did, or to check which ones appeared
+ */
+function usesDialogs(run: AgentRun): boolean {
+  return (
+    run.testCase.dialogs === 'accept' ||
+    run.steps.some(
+      (step) =>
+        step.expect.some((exp) => exp.type === 'dialog_shown') ||
+        step.actions.some(
+          (action) => action.type === 'dialog' || (action.type === 'assert' && action.assertType === 'dialog_shown'),
+        ),
+    )
+  );
+}
+
+/**
+ * Whether any action text refers to a secret or environment variable
+ */
+function usesVariables(run: AgentRun): boolean {
+  const refers = (text: string | undefined) => text !== undefined && text.match(VARIABLE_REF_RE) !== null;
+  return run.steps.some((step) =>
+    step.actions.some((action) => {
+      switch (action.type) {
+        case 'fill':
+          return refers(action.text);
+        case 'press':
+          return refers(action.key);
+        case 'fill_form':
+          return action.fields.some((field) => refers(field.value));
+        case 'dialog':
+          return refers(action.text);
+        default:
+          return false;
+      }
+    }),
+  );
+}
+
+/** Declared in specs whose action text refers to variables */
+const REQUIRE_ENV_HELPER = `
+/** Value of an environment variable the recorded run used; fails the test when unset */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (value === undefined) throw new Error(\`Missing environment variable \${name}\`);
+  return value;
+}`;
+
+/** Declared in specs whose expectations target a tab */
+const FIND_TAB_HELPER = `
+/** Tab by index, or by text in its URL or title; waits for popups to open */
+async function findTab(page: Page, tab: number | string): Promise<Page> {
+  let found: Page | undefined;
+  await expect.poll(async () => {
+    const pages = page.context().pages();
+    if (typeof tab === 'number') {
+      found = pages[tab];
+    } else {
+      const titles = await Promise.all(pages.map((p) => p.title()));
+      found = pages.find((p, i) => p.url().includes(tab) || titles[i]!.includes(tab));
+    }
+    return found !== undefined;
+  }, { message: \`tab \${tab} is open\` }).toBe(true);
+  return found!;
+}`;
+
+/**
+ * Render a saved agent run as Playwright spec source
+ */
+export function compileAgentRun(run: AgentRun): string {
+  const lines: string[] = [];
+  lines.push('// DO NOT EDIT — auto-generated by npm run compile:run');
+  lines.push(`// Source: agent run of test case "${run.testCase.id}"`);
+  const downloads = usesDownloads(run);
+  if (downloads) lines.push("import { readFileSync } from 'fs';");
+  const tabs = usesTabs(run);
+  lines.push(`import { test, expect${tabs ? ', type Page' : ''} } from '@playwright/test';`);
+  if (usesVariables(run)) lines.push(REQUIRE_ENV_HELPER);
+  if (tabs) lines.push(FIND_TAB_HELPER);
+  lines.push('');
+  lines.push(`test('${escapeString(run.testCase.name)}', async ({ page }) => {`);
+  if (tabs) {
+    const follows = run.steps.some((step) => (step.followedTabs ?? 0) > 0);
+    lines.push('  // The active tab changes as it did for the agent: a closed tab hands back to the newest one');
+    lines.push("  const track = (tab: Page) => tab.on('close', () => {");
+    lines.push('    if (tab === page) page = tab.context().pages().at(-1) ?? page;');
+    lines.push('  });');
+    lines.push('  track(page);');
+    lines.push("  page.context().on('page', (opened) => {");
+    lines.push('    track(opened);');
+    if (follows) lines.push('    page = opened;');
+    lines.push('  });');
+    lines.push('');
+  }
+  if (usesDialogs(run)) {
+    const answers = run.steps.flatMap((step) =>
+      step.actions.flatMap((action) =>
+        action.type === 'dialog'
+          ? [`{ accept: ${action.accept}${action.text !== undefined ? `, text: ${textToCode(action.text)}` : ''} }`]
+          : [],
+      ),
+    );
+    const fallback = run.testCase.dialogs === 'accept' ? 'accepted' : 'dismissed';
+    lines.push(`  // Dialogs get the agent's answers in order; any others are ${fallback}`);
+    lines.push('  const dialogs: string[] = [];');
+    lines.push(`  const dialogAnswers: Array<{ accept: boolean; text?: string }> = [${answers.length ? '' : '];'}`);
+    if (answers.length) {
+      for (const answer of answers) lines.push(`    ${answer},`);
+      lines.push('  ];');
+    }
+    lines.push("  page.context().on('dialog', async (dialog) => {");
+    lines.push('    dialogs.push(dialog.message());');
+    lines.push(`    const answer = dialogAnswers.shift() ?? { accept: ${fallback === 'accepted'} };`);
+    lines.push('    await (answer.accept ? dialog.accept(answer.text) : dialog.dismiss());');
+    lines.push('  });');
+    lines.push('');
+  }
+  if (downloads) {
+    lines.push('  const downloads: Array<{ name: string; path: string }> = [];');
+    lines.push("  page.on('download', async (download) => {");
+    lines.push('    downloads.push({ name: download.suggestedFilename(), path: await download.path() });');
+    lines.push('  });');
+    lines.push('');
+  }
+
+  lines.push(`  await test.step('navigate to base URL', async () => {`);
+  lines.push(indent(generateActionCode({ type: 'goto', url: run.testCase.baseUrl }), 2));
+  lines.push('  });');
+  lines.push('');
+
+  run.steps.forEach((step, i) => {
+    const title = `step ${i + 1}: ${step.goal.replace(/\s+/g, ' ')}`;
+    lines.push(`  await test.step('${escapeString(title)}', async () => {`);
+    for (const action of step.actions) {
+      lines.push(indent(generateActionCode(action, run.testCase.fixturesDir), 2));
+    }
+    for (const exp of step.expect) {
+      lines.push(indent(generateExpectationCode(exp), 2));
+    }
+    lines.push('  });');
+    lines.push('');
+  });
+
+  lines.push('});');
+  lines.push('');
+  return lines.join('\n');
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Run artifacts                                                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Save a passing agent run so it can be compiled later.
+ * Only successful actions are kept; secrets stay as placeholders.
+ */
+export function saveAgentRun(
+  testCase: TestCase,
+  results: StepResult[],
+  dir: string = RUNS_DIR,
+): string {
+  const run: AgentRun = {
+    testCase: {
+      id: testCase.id,
+      name: testCase.name,
+      baseUrl: testCase.baseUrl,
+      fixturesDir: testCase.fixturesDir && existsSync(testCase.fixturesDir)
+        ? relative(ROOT, testCase.fixturesDir).split(sep).join('/')
+        : undefined,
+      dialogs: testCase.dialogs,
+    },
+    recordedAt: new Date().toISOString(),
+    steps: results.map((result, i) => ({
+      goal: testCase.steps[i]?.goal ?? result.step.goal,
+      expect: result.step.expect ?? [],
+      actions: result.actions.filter((a) => a.success).map((a) => a.action),
+      followedTabs: result.followedTabs,
+    })),
+  };
+
+  mkdirSync(dir, { recursive: true });
+  const outPath = join(dir, `${sanitizeFilename(testCase.id)}.json`);
+  writeFileSync(outPath, JSON.stringify(AgentRunSchema.parse(run), null, 2) + '\n', 'utf-8');
+  return outPath;
+}
+
+function loadAgentRun(filePath: string): AgentRun {
+  const raw = readFileSync(filePath, 'utf-8');
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid agent run JSON in ${relative(ROOT, filePath)}: ${msg}`);
+  }
+  const parsed = AgentRunSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(
+      `Agent run schema mismatch in ${relative(ROOT, filePath)}: ${summarizeParseIssues(parsed.error.issues)}`,
+    );
+  }
+  return parsed.data;
+}
+
+function resolveRunPaths(runArg?: string): string[] {
+  if (!runArg) {
+    const pattern = join(RUNS_DIR, '*.json').replace(/\\/g, '/');
+    const files = fg.sync(pattern, { absolute: true }).sort();
+    if (files.length === 0) {
+      throw new Error(
+        `No agent runs found in ${relative(ROOT, RUNS_DIR)}. Run npm test until the test case passes, or pass --run.`,
+      );
+    }
+    return files;
+  }
+
+  const candidates = [
+    runArg,
+    resolve(process.cwd(), runArg),
+    resolve(ROOT, runArg),
+    join(RUNS_DIR, `${sanitizeFilename(runArg)}.json`),
+  ];
+  for (const candidate of candidates) {
+    if (existsSync(candidate)) return [candidate];
+  }
+  throw new Error(`Could not resolve agent run "${runArg}".`);
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Main                                                                       */
+/* -------------------------------------------------------------------------- */
+
+export function compileRuns(options: CompileOptions = {}): string[] {
+  const outDir = options.out ? resolve(process.cwd(), options.out) : OUTPUT_DIR;
+  mkdirSync(outDir, { recursive: true });
+
+  const written: string[] = [];
+  for (const runPath of resolveRunPaths(options.run)) {
+    const run = loadAgentRun(runPath);
+    const outPath = join(outDir, `${sanitizeFilename(run.testCase.id)}.agent.spec.ts`);
+    writeFileSync(outPath, compileAgentRun(run), 'utf-8');
+    written.push(outPath);
+    console.log(`✓ ${relative(ROOT, outPath)} (from ${basename(runPath)})`);
+  }
+
+  console.log(`\n✓ Compiled ${written.length} agent run(s)`);
+  return written;
+}
+
+function parseArgs(argv: string[]): CompileOptions {
+  const options: CompileOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    switch (arg) {
+      case '--run':
+        options.run = argv[++i];
+        if (!options.run) throw new Error('Missing value for --run');
+        break;
+      case '--out':
+        options.out = argv[++i];
+        if (!options.out) throw new Error('Missing value for --out');
+        break;
+      case '--help':
+      case '-h':
+        console.log('Usage: npm run compile:run -- [--run <path|test-case-id>] [--out <dir>]');
+        process.exit(0);
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  CLI entry point                                                            */
+/* -------------------------------------------------------------------------- */
+
+const isDirectRun =
+  process.argv[1] &&
+  (process.argv[1].endsWith('compileRun.ts') ||
+    process.argv[1].endsWith('compileRun.js'));
+
+if (isDirectRun) {
+  try {
+    compileRuns(parseArgs(process.argv.slice(2)));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`✗ ${msg}`);
+    process.exit(1);
+  }
+}
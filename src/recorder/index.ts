@@ -1,8 +1,10 @@
 export { generate } from './generate.js';
 export { reviewRecording } from './review.js';
+export { compileAgentRun, compileRuns, saveAgentRun } from './compileRun.js';
 export { selectBestSelector, locatorOverrideToCode } from './selectors.js';
 export {
   RecordingSchema,
   OverridesFileSchema,
   AssertionsFileSchema,
+  AgentRunSchema,
 } from './schemas.js';
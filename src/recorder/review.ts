@@ -20,7 +20,7 @@ import { fileURLToPath } from 'url';
 import fg from 'fast-glob';
 import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
 import 'dotenv/config';
-import { createProvider } from '../llm/index.js';
+import { createProvider, type ChatMessage } from '../llm/index.js';
 import {
   OverridesFileSchema,
   RecordingSchema,
@@ -529,7 +529,7 @@ function buildPrompt(
   contextPath: string,
   errorContext: string,
   existing: OverridesFile | null,
-): string {
+): ChatMessage[] {
   const systemPrompt = [
     'You are a Playwright selector reviewer.',
     'Return only a single JSON object with this exact shape:',
@@ -567,7 +567,10 @@ function buildPrompt(
     JSON.stringify(existing ?? { overrides: [] }, null, 2),
   ].join('\n');
 
-  return `${systemPrompt}\n\n${userPrompt}`;
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
 }
 
 function formatYaml(file: OverridesFile): string {
@@ -632,12 +635,15 @@ export async function reviewRecording(options: ReviewOptions = {}): Promise<Revi
   const outputPath = join(OVERRIDES_DIR, `${recordingName}.yaml`);
   const existingOverrides = loadExistingOverrides(outputPath);
 
-  const llm = createProvider({
-    model: options.model,
-    temperature: 0,
-  });
+  const llm = createProvider(
+    {
+      model: options.model,
+      temperature: 0,
+    },
+    { cassette: `review-${recordingName}` },
+  );
 
-  const prompt = buildPrompt(
+  const messages = buildPrompt(
     recordingPath,
     recording,
     contextPath,
@@ -647,8 +653,13 @@ export async function reviewRecording(options: ReviewOptions = {}): Promise<Revi
 
   let proposed: OverridesFile;
   try {
-    const raw = await llm.generateAction(prompt);
-    proposed = parseReviewResponse(raw);
+    const response = await llm.chat(messages);
+    if (response.usage) {
+      console.log(
+        `info LLM usage: ${response.usage.promptTokens} prompt + ${response.usage.completionTokens} completion tokens in ${response.latencyMs}ms`,
+      );
+    }
+    proposed = parseReviewResponse(response.content);
     validateOverridesAgainstRecording(proposed, recording);
   } catch (err) {
     const fallback = suggestOverridesFromFailureContext(recording, errorContext);
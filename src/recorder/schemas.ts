@@ -1,9 +1,10 @@
 /**
  * Zod schemas for Chrome DevTools Recorder JSON, assertion sidecars,
- * and selector override sidecars.
+ * selector override sidecars, and saved agent runs.
  */
 
 import { z } from 'zod';
+import { ActionSchema, LocatorSpecSchema } from '../agent/actionSchema.js';
 
 /* -------------------------------------------------------------------------- */
 /*  Chrome DevTools Recorder JSON                                             */
@@ -177,3 +178,40 @@ export const AssertionsFileSchema = z.object({
 
 export type AssertionsFile = z.infer<typeof AssertionsFileSchema>;
 export type AssertionExpect = z.infer<typeof AssertionExpectSchema>;
+
+/* -------------------------------------------------------------------------- */
+/*  Agent run artifact (input to compile:run)                                  */
+/* -------------------------------------------------------------------------- */
+
+const AgentRunExpectationSchema = z.object({
+  type: z.enum(['url_contains', 'visible_text', 'locator_visible', 'download_name_matches', 'download_contains', 'dialog_shown']),
+  value: z.string(),
+  locator: LocatorSpecSchema.optional(),
+  tab: z.union([z.number().int().min(0), z.string()]).optional(),
+});
+
+const AgentRunStepSchema = z.object({
+  goal: z.string(),
+  expect: z.array(AgentRunExpectationSchema).default([]),
+  /** Successful actions only, in execution order */
+  actions: z.array(ActionSchema),
+  /** Popups the runner switched to as they opened */
+  followedTabs: z.number().int().optional(),
+});
+
+export const AgentRunSchema = z.object({
+  testCase: z.object({
+    id: z.string(),
+    name: z.string(),
+    baseUrl: z.string(),
+    /** Upload fixtures folder, relative to the repo root */
+    fixturesDir: z.string().optional(),
+    /** Dialog policy of the test case */
+    dialogs: z.enum(['accept', 'dismiss', 'agent']).optional(),
+  }),
+  recordedAt: z.string(),
+  steps: z.array(AgentRunStepSchema),
+});
+
+export type AgentRun = z.infer<typeof AgentRunSchema>;
+export type AgentRunExpectation = z.infer<typeof AgentRunExpectationSchema>;
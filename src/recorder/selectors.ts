@@ -9,6 +9,8 @@
  * locator source code.
  */
 
+import type { LocatorSpec } from '../agent/actionSchema.js';
+
 /* -------------------------------------------------------------------------- */
 /*  Types                                                                      */
 /* -------------------------------------------------------------------------- */
@@ -265,4 +267,84 @@ export function locatorOverrideToCode(
   }
 }
 
-export { escapeRegex };
+/**
+ * Generate locator code from an agent LocatorSpec (compiled agent runs).
+ * Nested specs are built in the frame of the outer one, as the runner does.
+ */
+export function locatorSpecToCode(spec: LocatorSpec, scope = 'page'): string {
+  const root = spec.frame !== undefined ? frameToCode(spec.frame) : scope;
+  let code = targetToCode(spec, root);
+  if (spec.hasText !== undefined) code += `.filter({ hasText: '${escapeString(spec.hasText)}' })`;
+  if (spec.filter) {
+    const opts: string[] = [];
+    if (spec.filter.has) opts.push(`has: ${locatorSpecToCode(spec.filter.has, root)}`);
+    if (spec.filter.hasNot) opts.push(`hasNot: ${locatorSpecToCode(spec.filter.hasNot, root)}`);
+    if (spec.filter.hasText !== undefined) opts.push(`hasText: '${escapeString(spec.filter.hasText)}'`);
+    if (spec.filter.hasNotText !== undefined) opts.push(`hasNotText: '${escapeString(spec.filter.hasNotText)}'`);
+    if (opts.length > 0) code += `.filter({ ${opts.join(', ')} })`;
+  }
+  if (spec.nth !== undefined) code += `.nth(${spec.nth})`;
+  else if (spec.last) code += '.last()';
+  return code;
+}
+
+/**
+ * Frame lookup close to the runner's: the iframe with that name or id, or
+ * whose `src` contains the text. A frame locator waits for the iframe to
+ * attach, but only reaches iframes of the page itself, not nested ones.
+ */
+function frameToCode(frame: string): string {
+  // Indexes follow load order; runs are saved with frames named instead
+  if (/^\d+$/.test(frame)) {
+    throw new Error(`Cannot generate code for frame index "${frame}": use the frame's name or part of its URL`);
+  }
+  if (frame === 'about:srcdoc') return `page.frameLocator('iframe[srcdoc]').first()`;
+  const value = escapeString(frame.replace(/["\\]/g, '\\$&'));
+  return `page.frameLocator('iframe[name="${value}"], iframe[id="${value}"], iframe[src*="${value}"]').first()`;
+}
+
+function targetToCode(spec: LocatorSpec, scope: string): string {
+  const root = spec.within ? locatorSpecToCode(spec.within, scope) : scope;
+  switch (spec.kind) {
+    case 'role': {
+      const opts = [`name: '${escapeString(spec.name)}'`];
+      if (spec.exact != null) opts.push(`exact: ${spec.exact}`);
+      return `${root}.getByRole('${escapeString(spec.role)}', { ${opts.join(', ')} })`;
+    }
+    case 'label':
+      return spec.exact != null
+        ? `${root}.getByLabel('${escapeString(spec.text)}', { exact: ${spec.exact} })`
+        : `${root}.getByLabel('${escapeString(spec.text)}')`;
+    case 'text':
+      return spec.exact != null
+        ? `${root}.getByText('${escapeString(spec.text)}', { exact: ${spec.exact} })`
+        : `${root}.getByText('${escapeString(spec.text)}')`;
+    case 'testid':
+      return `${root}.getByTestId('${escapeString(spec.id)}')`;
+    case 'placeholder':
+      return spec.exact != null
+        ? `${root}.getByPlaceholder('${escapeString(spec.text)}', { exact: ${spec.exact} })`
+        : `${root}.getByPlaceholder('${escapeString(spec.text)}')`;
+    case 'alt':
+      return spec.exact != null
+        ? `${root}.getByAltText('${escapeString(spec.text)}', { exact: ${spec.exact} })`
+        : `${root}.getByAltText('${escapeString(spec.text)}')`;
+    case 'title':
+      return spec.exact != null
+        ? `${root}.getByTitle('${escapeString(spec.text)}', { exact: ${spec.exact} })`
+        : `${root}.getByTitle('${escapeString(spec.text)}')`;
+    case 'css':
+      return `${root}.locator('${escapeString(spec.selector)}')`;
+    case 'xpath':
+      return `${root}.locator('xpath=${escapeString(spec.expression)}')`;
+    case 'active':
+      return `${scope}.locator(':focus')`;
+    case 'ref':
+      // Runs are saved with refs resolved; a bare ref has no meaning outside its snapshot
+      throw new Error(`Cannot generate code for element ref "${spec.ref}"`);
+    default:
+      return `page.locator('body')`;
+  }
+}
+
+export { escapeRegex, escapeString };
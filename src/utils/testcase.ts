@@ -1,17 +1,18 @@
 import { readFileSync, readdirSync } from 'fs';
-import { join, extname } from 'path';
+import { join, extname, dirname, resolve } from 'path';
 import { parse as parseYaml } from 'yaml';
 import { z } from 'zod';
 import type { TestCase, TestStep, Expectation } from '../agent/index.js';
-import type { LocatorSpec } from '../agent/actionSchema.js';
+import { LocatorSpecSchema, type LocatorSpec } from '../agent/actionSchema.js';
 
 /**
  * Schema for test case YAML files
  */
 const ExpectationSchema = z.object({
-  type: z.enum(['url_contains', 'visible_text', 'locator_visible']),
+  type: z.enum(['url_contains', 'visible_text', 'locator_visible', 'download_name_matches', 'download_contains', 'dialog_shown']),
   value: z.string(),
-  locator: z.any().optional(), // LocatorSpec, validated separately if needed
+  locator: LocatorSpecSchema.optional(),
+  tab: z.union([z.number().int().min(0), z.string()]).optional(),
 });
 
 const TestStepSchema = z.object({
@@ -24,6 +25,11 @@ const TestCaseSchema = z.object({
   name: z.string(),
   baseUrl: z.string().url(),
   variables: z.record(z.string()).optional(),
+  secrets: z.array(z.string()).optional(),
+  /** Fixtures folder for uploads, relative to the YAML file (default: fixtures) */
+  fixtures: z.string().optional(),
+  /** How native dialogs are answered (default: agent) */
+  dialogs: z.enum(['accept', 'dismiss', 'agent']).optional(),
   steps: z.array(TestStepSchema).min(1),
 });
 
@@ -40,6 +46,9 @@ export function loadTestCase(filePath: string): TestCase {
     name: validated.name,
     baseUrl: validated.baseUrl,
     variables: validated.variables,
+    secrets: validated.secrets,
+    fixturesDir: resolve(dirname(filePath), validated.fixtures ?? 'fixtures'),
+    dialogs: validated.dialogs,
     steps: validated.steps.map(step => ({
       goal: step.goal,
       expect: step.expect as Expectation[] | undefined,
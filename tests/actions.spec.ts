@@ -0,0 +1,351 @@
+import { test, expect, type Page } from '@playwright/test';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { AgentRunner, collectObservation, type RunnerConfig, type StepContext, type StepResult, type TestStep } from '../src/agent/index.js';
+import { StubProvider } from '../src/llm/index.js';
+import { createLogger } from '../src/utils/index.js';
+
+/**
+ * Interaction actions against local fixture pages, with scripted LLM replies
+ * (no LLM or network needed)
+ */
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixture = (name: string) => pathToFileURL(join(__dirname, 'fixtures', name)).href;
+
+const logger = createLogger('test:actions');
+
+async function runStep(
+  page: Page,
+  step: TestStep,
+  replies: object[],
+  config: Partial<RunnerConfig> = {},
+  context: StepContext = {}
+): Promise<StepResult> {
+  const llm = new StubProvider(replies.map(reply => JSON.stringify(reply)));
+  const runner = new AgentRunner(page, llm, logger, { maxTicksPerStep: replies.length + 1, postActionDelayMs: 100, ...config });
+  return runner.executeStep(step, context);
+}
+
+test.describe('interaction actions', () => {
+  test('hover opens a menu that shows on hover', async ({ page }) => {
+    await page.goto(fixture('hover-menu.html'));
+    const result = await runStep(page, {
+      goal: 'Open the Laptops page from the Products menu',
+      expect: [{ type: 'visible_text', value: 'Selected: Laptops' }],
+    }, [
+      { action: { type: 'hover', locator: { kind: 'role', role: 'button', name: 'Products' } } },
+      { action: { type: 'click', locator: { kind: 'role', role: 'link', name: 'Laptops' } } },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.actions.map(a => a.action.type)).toEqual(['hover', 'click']);
+  });
+
+  test('dblclick opens a file', async ({ page }) => {
+    await page.goto(fixture('file-list.html'));
+    const result = await runStep(page, {
+      goal: 'Open notes.txt',
+      expect: [{ type: 'visible_text', value: 'Opened notes.txt' }],
+    }, [
+      { action: { type: 'dblclick', locator: { kind: 'text', text: 'notes.txt', exact: true } } },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.ticksUsed).toBe(1);
+  });
+
+  test('rightclick opens a context menu', async ({ page }) => {
+    await page.goto(fixture('file-list.html'));
+    const result = await runStep(page, {
+      goal: 'Delete report.pdf',
+      expect: [{ type: 'visible_text', value: 'Deleted report.pdf' }],
+    }, [
+      { action: { type: 'rightclick', locator: { kind: 'text', text: 'report.pdf', exact: true } } },
+      { action: { type: 'click', locator: { kind: 'role', role: 'menuitem', name: 'Delete' } } },
+    ]);
+
+    expect(result.success).toBe(true);
+    await expect(page.getByRole('listitem')).toHaveText(['notes.txt', 'photo.jpg']);
+  });
+
+  test('drag reorders a sortable list', async ({ page }) => {
+    await page.goto(fixture('file-list.html'));
+    const result = await runStep(page, {
+      goal: 'Move photo.jpg to the top of the list',
+      expect: [{ type: 'visible_text', value: 'Order: photo.jpg, report.pdf, notes.txt' }],
+    }, [
+      {
+        action: {
+          type: 'drag',
+          source: { kind: 'text', text: 'photo.jpg', exact: true },
+          target: { kind: 'text', text: 'report.pdf', exact: true },
+        },
+      },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.actions[0]?.success).toBe(true);
+  });
+
+  test('scroll loads more content on the page and in a list', async ({ page }) => {
+    await page.goto(fixture('infinite-scroll.html'));
+    const result = await runStep(page, {
+      goal: 'Load more posts and log entries',
+      expect: [
+        { type: 'visible_text', value: 'Post 6' },
+        { type: 'visible_text', value: 'Entry 6' },
+      ],
+    }, [
+      { action: { type: 'scroll', direction: 'down', amount: 2000 } },
+      { action: { type: 'scroll', direction: 'down', locator: { kind: 'role', role: 'list', name: 'Activity log' } } },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.actions.map(a => a.success)).toEqual([true, true]);
+  });
+
+  test('scroll with only a locator brings the element into view', async ({ page }) => {
+    await page.goto(fixture('infinite-scroll.html'));
+    const result = await runStep(page, { goal: 'Show Post 4' }, [
+      { action: { type: 'scroll', locator: { kind: 'role', role: 'heading', name: 'Post 4' } } },
+    ]);
+
+    expect(result.actions[0]?.success).toBe(true);
+    await expect(page.getByRole('heading', { name: 'Post 4' })).toBeInViewport();
+    expect(await page.evaluate(() => window.scrollY)).toBeGreaterThan(0);
+  });
+
+  test('scroll without a direction or locator is reported as a failed action', async ({ page }) => {
+    await page.goto(fixture('infinite-scroll.html'));
+    const result = await runStep(page, { goal: 'Scroll' }, [
+      { action: { type: 'scroll' } },
+    ]);
+
+    expect(result.actions[0]).toMatchObject({ success: false, error: expect.stringContaining('needs a "direction"') });
+  });
+});
+
+test.describe('file actions', () => {
+  const fixturesDir = join(__dirname, 'fixtures', 'uploads');
+
+  test('upload attaches fixtures to a file input and through a file chooser', async ({ page }) => {
+    await page.goto(fixture('documents.html'));
+    const result = await runStep(page, {
+      goal: 'Import the invoices, then set an avatar',
+      expect: [{ type: 'visible_text', value: 'Avatar: avatar.txt' }],
+    }, [
+      { action: { type: 'upload', locator: { kind: 'label', text: 'Invoices' }, files: ['invoices.csv'] } },
+      { action: { type: 'assert', assertType: 'visible_text', value: 'Imported 2 invoices' } },
+      { action: { type: 'upload', locator: { kind: 'role', role: 'button', name: 'Choose avatar' }, files: ['avatar.txt'] } },
+    ], { fixturesDir });
+
+    expect(result.success).toBe(true);
+    expect(result.actions.map(a => a.success)).toEqual([true, true, true]);
+  });
+
+  test('upload refuses files outside the fixtures folder', async ({ page }) => {
+    await page.goto(fixture('documents.html'));
+    const result = await runStep(page, { goal: 'Import invoices' }, [
+      { action: { type: 'upload', locator: { kind: 'label', text: 'Invoices' }, files: ['../documents.html'] } },
+    ], { fixturesDir });
+
+    expect(result.actions[0]).toMatchObject({ success: false, error: expect.stringContaining('outside the fixtures directory') });
+  });
+
+  test('downloads are captured and checked by name and content', async ({ page }, testInfo) => {
+    await page.goto(fixture('documents.html'));
+    const result = await runStep(page, {
+      goal: 'Export the report',
+      expect: [
+        { type: 'download_name_matches', value: '^report-.*\\.csv$' },
+        { type: 'download_contains', value: 'March,59' },
+      ],
+    }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Export report' } } },
+    ], { downloadsDir: testInfo.outputPath('downloads') });
+
+    expect(result.success).toBe(true);
+    expect(result.downloads).toMatchObject([{ name: 'report-march.csv', size: 21 }]);
+    expect(result.downloads?.[0]?.path.startsWith(testInfo.outputPath('downloads'))).toBe(true);
+  });
+});
+
+test.describe('tabs', () => {
+  test('a link that opens a new tab is followed', async ({ page }) => {
+    await page.goto(fixture('tabs.html'));
+    const result = await runStep(page, {
+      goal: 'Open the help centre',
+      expect: [{ type: 'visible_text', value: 'Help centre' }],
+    }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'link', name: 'Open help' } } },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.followedTabs).toBe(1);
+  });
+
+  test('switch_tab and close_tab return to the first tab', async ({ page }) => {
+    await page.goto(fixture('tabs.html'));
+    const result = await runStep(page, { goal: 'Open help, then go back to the shop and close help' }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'link', name: 'Open help' } } },
+      { action: { type: 'switch_tab', tab: 0 } },
+      { action: { type: 'close_tab', tab: 1 } },
+    ]);
+
+    expect(result.actions.map(a => a.success)).toEqual([true, true, true]);
+    expect(page.context().pages()).toHaveLength(1);
+    await expect(page.getByRole('status')).toHaveText('Signed out');
+  });
+
+  test('a popup that closes itself hands back to the opener', async ({ page }) => {
+    await page.goto(fixture('tabs.html'));
+    const result = await runStep(page, {
+      goal: 'Sign in',
+      expect: [{ type: 'visible_text', value: 'Signed in' }],
+    }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Sign in with Example' } } },
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Authorize' } } },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.ticksUsed).toBe(2);
+  });
+
+  test('expectations can target a tab that is not active', async ({ page }) => {
+    await page.goto(fixture('tabs.html'));
+    const result = await runStep(page, {
+      goal: 'Open the help centre in a new tab',
+      expect: [
+        { type: 'visible_text', value: 'Help centre', tab: 'tabs-help.html' },
+        { type: 'url_contains', value: 'tabs.html', tab: 0 },
+      ],
+    }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'link', name: 'Open help' } } },
+    ], { followPopups: false });
+
+    expect(result.success).toBe(true);
+    expect(result.followedTabs).toBeUndefined();
+  });
+});
+
+test.describe('frames and shadow DOM', () => {
+  test('iframe content is observed under a frame label', async ({ page }) => {
+    await page.goto(fixture('checkout.html'));
+    const observation = await collectObservation(page, [], 1, null, { elementRefs: true });
+
+    expect(observation.ariaSnapshot).toContain('- frame [frame=1] name="payment"');
+    expect(observation.ariaSnapshot).toMatch(/^ {2}- textbox "Card number" \[ref=e\d+\]$/m);
+  });
+
+  test('"frame" reaches controls inside an iframe', async ({ page }) => {
+    await page.goto(fixture('checkout.html'));
+    const result = await runStep(page, {
+      goal: 'Pay with card 4242424242424242',
+      expect: [{ type: 'visible_text', value: 'Paid with card ending 4242' }],
+    }, [
+      { action: { type: 'fill', locator: { kind: 'label', text: 'Card number', frame: 'payment' }, text: '4242424242424242' } },
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Pay', frame: '1' } } },
+    ]);
+
+    expect(result.success).toBe(true);
+  });
+
+  test('shadow DOM controls and text are handled like the rest of the page', async ({ page }) => {
+    await page.goto(fixture('checkout.html'));
+    const result = await runStep(page, {
+      goal: 'Apply promo code SPRING',
+      expect: [{ type: 'visible_text', value: 'Promo SPRING applied' }],
+    }, [
+      { action: { type: 'fill', locator: { kind: 'label', text: 'Promo code' }, text: 'SPRING' } },
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Apply' } } },
+    ]);
+
+    expect(result.success).toBe(true);
+    const observation = await collectObservation(page, [], 1, null);
+    expect(observation.shortText).toContain('Promo SPRING applied');
+    expect(observation.shortText).not.toContain('color: green');
+  });
+});
+
+test.describe('dialogs', () => {
+  test('a confirm waits for the dialog action', async ({ page }) => {
+    await page.goto(fixture('drafts.html'));
+    const result = await runStep(page, {
+      goal: 'Delete the draft',
+      expect: [
+        { type: 'visible_text', value: 'Draft deleted' },
+        { type: 'dialog_shown', value: 'Delete "Q3 plan"?' },
+      ],
+    }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Delete draft' } } },
+      { action: { type: 'dialog', accept: true } },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.dialogs).toEqual([{ type: 'confirm', message: 'Delete "Q3 plan"?', outcome: 'accepted' }]);
+  });
+
+  test('a prompt is answered with text', async ({ page }) => {
+    await page.goto(fixture('drafts.html'));
+    const result = await runStep(page, {
+      goal: 'Rename the draft to Q4 plan',
+      expect: [{ type: 'visible_text', value: 'Renamed to Q4 plan' }],
+    }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Rename' } } },
+      { action: { type: 'dialog', accept: true, text: 'Q4 plan' } },
+    ]);
+
+    expect(result.success).toBe(true);
+  });
+
+  test('other actions are refused while a dialog is open', async ({ page }) => {
+    await page.goto(fixture('drafts.html'));
+    const result = await runStep(page, {
+      goal: 'Keep the draft',
+      expect: [{ type: 'visible_text', value: 'Draft kept' }],
+    }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Delete draft' } } },
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Rename' } } },
+      { action: { type: 'dialog', accept: false } },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.actions[1]?.error).toMatch(/confirm dialog is open .*answer it with the dialog action first/);
+  });
+
+  test('the dialog policy answers dialogs without the agent', async ({ page }) => {
+    await page.goto(fixture('drafts.html'));
+    const result = await runStep(page, {
+      goal: 'Try to delete the draft',
+      expect: [{ type: 'visible_text', value: 'Draft kept' }],
+    }, [
+      { action: { type: 'click', locator: { kind: 'role', role: 'button', name: 'Delete draft' } } },
+    ], { dialogPolicy: 'dismiss' });
+
+    expect(result.success).toBe(true);
+    expect(result.dialogs?.[0]?.outcome).toBe('dismissed');
+  });
+});
+
+test.describe('trajectory cache', () => {
+  test('a plan for a step without expectations is not cached', async ({ page }, testInfo) => {
+    const trajectoryCacheDir = testInfo.outputPath('trajectories');
+    const plan = { plan: [{ action: { type: 'dblclick', locator: { kind: 'text', text: 'notes.txt', exact: true } } }] };
+    const config = { planMode: true, trajectoryCacheDir };
+
+    await page.goto(fixture('file-list.html'));
+    const unchecked = await runStep(page, { goal: 'Open notes.txt' }, [plan], config, { testCaseId: 'files', stepIndex: 0 });
+    expect(unchecked.success).toBe(true);
+    expect(existsSync(trajectoryCacheDir)).toBe(false);
+
+    await page.goto(fixture('file-list.html'));
+    const checked = await runStep(page, {
+      goal: 'Open notes.txt',
+      expect: [{ type: 'visible_text', value: 'Opened notes.txt' }],
+    }, [plan], config, { testCaseId: 'files', stepIndex: 0 });
+    expect(checked.success).toBe(true);
+    expect(existsSync(join(trajectoryCacheDir, 'files.json'))).toBe(true);
+  });
+});
@@ -3,8 +3,9 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 import { AgentRunner, TestCase, StepResult, maskSecrets } from '../src/agent/index.js';
-import { createProvider, ChutesProvider } from '../src/llm/index.js';
+import { createProvider } from '../src/llm/index.js';
 import { loadTestCases, resolveVariables, createLogger } from '../src/utils/index.js';
+import { saveAgentRun } from '../src/recorder/compileRun.js';
 
 // Load environment variables
 dotenv.config();
@@ -18,26 +19,58 @@ const testCases = loadTestCases(testcasesDir);
 // Configuration from environment
 const config = {
   maxTicksPerStep: parseInt(process.env.MAX_TICKS_PER_STEP || '25', 10),
-  ariaSnapshotMaxChars: parseInt(process.env.ARIA_SNAPSHOT_MAX_CHARS || '8000', 10),
+  ariaSnapshotMaxTokens: parseInt(process.env.ARIA_SNAPSHOT_MAX_TOKENS || '2000', 10),
   shortTextMaxChars: parseInt(process.env.SHORT_TEXT_MAX_CHARS || '2000', 10),
   postActionDelayMs: 200,
   expectationTimeoutMs: 3000,
+  conversationMode: process.env.CONVERSATION_MODE === '1',
+  conversationTokenWindow: parseInt(process.env.CONVERSATION_TOKEN_WINDOW || '4000', 10),
+  loopDetection: process.env.LOOP_DETECTION !== '0',
+  maxLoopRecoveries: parseInt(process.env.MAX_LOOP_RECOVERIES || '2', 10),
+  trajectoryCacheDir: process.env.TRAJECTORY_CACHE_DIR || null,
+  maxParseCorrections: parseInt(process.env.MAX_PARSE_CORRECTIONS || '2', 10),
+  elementRefs: process.env.ELEMENT_REFS === '1',
+  snapshotDiffs: process.env.SNAPSHOT_DIFFS === '1',
+  model: process.env.LLM_MODEL || null,
+  contextTokens: process.env.LLM_CONTEXT_TOKENS ? parseInt(process.env.LLM_CONTEXT_TOKENS, 10) : null,
+  outputReserveTokens: process.env.LLM_OUTPUT_RESERVE_TOKENS ? parseInt(process.env.LLM_OUTPUT_RESERVE_TOKENS, 10) : null,
+  locatorHealing: process.env.LOCATOR_HEALING !== '0',
+  planMode: process.env.PLAN_MODE === '1',
+  maxReplans: parseInt(process.env.MAX_REPLANS || '3', 10),
+  maxBatchActions: parseInt(process.env.MAX_BATCH_ACTIONS || '5', 10),
+  downloadsDir: process.env.DOWNLOADS_DIR || null,
+  followPopups: process.env.FOLLOW_POPUPS !== '0',
 };
 
-// Check Chutes availability before running tests
+// Replaying cassettes needs no network access
+const offline =
+  process.env.LLM_PROVIDER === 'cassette' ||
+  ['replay', 'strict-replay'].includes(process.env.LLM_CASSETTE_MODE || '');
+
+// Check LLM availability before running tests
 test.beforeAll(async () => {
-  const chutes = new ChutesProvider();
-  const available = await chutes.healthCheck();
+  if (offline) {
+    console.log('\n✓ Replaying LLM cassettes (offline)\n');
+    return;
+  }
+  
+  const providerName = process.env.LLM_PROVIDER || 'chutes';
+  const llm = createProvider();
+  const available = llm.healthCheck ? await llm.healthCheck() : true;
   
   if (!available) {
-    console.warn('\n⚠️  Chutes API is not reachable');
-    console.warn('   Make sure CHUTES_API_KEY is set in your .env file');
-    console.warn('   Get your API key from https://chutes.ai/app/api\n');
+    console.warn(`\n⚠️  LLM provider "${providerName}" is not reachable`);
+    if (providerName === 'chutes') {
+      console.warn('   Make sure CHUTES_API_KEY is set in your .env file');
+      console.warn('   Get your API key from https://chutes.ai/app/api\n');
+    } else {
+      console.warn('   Check LLM_BASE_URL and that the server is running\n');
+    }
   } else {
-    console.log('\n✓ Chutes API is available\n');
+    console.log(`\n✓ LLM provider "${providerName}" is available\n`);
   }
   
-  const models = await chutes.listModels();
+  const models = llm.listModels ? await llm.listModels() : [];
   if (models.length > 0) {
     console.log(`✓ Available models: ${models.slice(0, 5).join(', ')}${models.length > 5 ? '...' : ''}\n`);
   }
@@ -48,10 +81,16 @@ for (const testCase of testCases) {
   test.describe(testCase.name, () => {
     test(`Execute: ${testCase.id}`, async ({ page }, testInfo) => {
       const logger = createLogger(`test:${testCase.id}`);
-      const llm = createProvider();
+      const llm = createProvider(undefined, { cassette: testCase.id, logger });
       const variables = resolveVariables(testCase);
       
-      const runner = new AgentRunner(page, llm, logger, config, variables);
+      // Downloads land in the test's output folder unless DOWNLOADS_DIR is set
+      const runner = new AgentRunner(page, llm, logger, {
+        ...config,
+        fixturesDir: testCase.fixturesDir ?? null,
+        downloadsDir: config.downloadsDir ?? testInfo.outputPath('downloads'),
+        ...(testCase.dialogs && { dialogPolicy: testCase.dialogs }),
+      }, variables, testCase.secrets);
       
       // Navigate to base URL
       logger.info({ baseUrl: testCase.baseUrl }, 'Navigating to base URL');
@@ -64,7 +103,7 @@ for (const testCase of testCases) {
         const step = testCase.steps[i];
         logger.info({ stepIndex: i, goal: maskSecrets(step.goal) }, `Step ${i + 1}`);
         
-        const result = await runner.executeStep(step);
+        const result = await runner.executeStep(step, { testCaseId: testCase.id, stepIndex: i });
         stepResults.push(result);
         
         // Attach debug info on failure
@@ -83,6 +122,7 @@ for (const testCase of testCases) {
                 tickNumber: obs.tickNumber,
                 lastError: obs.lastError,
                 previousActions: obs.previousActions,
+                promptBudgets: result.debugInfo.promptBudgets,
               }, null, 2),
               contentType: 'application/json',
             });
@@ -124,6 +164,12 @@ for (const testCase of testCases) {
       const total = stepResults.length;
       logger.info({ passed, total }, 'Test completed');
       
+      // Save the green run so it can be compiled into a deterministic spec
+      if (passed === total) {
+        const runPath = saveAgentRun(testCase, stepResults);
+        logger.info({ runPath }, 'Saved agent run (compile with npm run compile:run)');
+      }
+      
       // Attach summary
       await testInfo.attach('test-summary.json', {
         body: JSON.stringify({
@@ -137,7 +183,15 @@ for (const testCase of testCases) {
             goal: maskSecrets(testCase.steps[i].goal),
             success: r.success,
             ticksUsed: r.ticksUsed,
+            usage: r.usage,
+            replayed: r.replayed,
+            healed: r.healed,
+            plans: r.plans,
+            downloads: r.downloads?.map(d => ({ name: d.name, size: d.size })),
+            followedTabs: r.followedTabs,
+            dialogs: r.dialogs,
             error: r.error,
+            errorCategory: r.errorCategory,
           })),
         }, null, 2),
         contentType: 'application/json',